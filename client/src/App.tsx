@@ -3,10 +3,13 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { useServerEvents } from "@/hooks/use-server-events";
 import Home from "@/pages/home";
 import NotFound from "@/pages/not-found";
 
 function Router() {
+  useServerEvents();
+
   return (
     <Switch>
       <Route path="/" component={Home} />
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Archive, Loader2 } from "lucide-react";
+import { confirmArchiveImport, discardArchiveImport } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ArchivePreview {
+  importId: string;
+  archiveName: string;
+  entries: ArchiveEntry[];
+}
+
+interface ArchiveEntry {
+  name: string;
+  size: number;
+  type: 'syllabus' | 'pastpaper' | 'markingscheme' | null;
+  kind: string | null;
+  subject: string | null;
+  subjectSource: 'filename' | 'cover' | null;
+  include: boolean;
+  reason?: string;
+}
+
+interface ArchiveImportPreviewProps {
+  preview: ArchivePreview;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  qp: 'Question paper',
+  in: 'Insert',
+  ms: 'Mark scheme',
+  er: 'Examiner report',
+  gt: 'Grade thresholds',
+};
+
+// Lists how each file in an uploaded archive was classified, so types, subjects and
+// which files to import can be corrected before the import job starts
+export default function ArchiveImportPreview({ preview, onClose }: ArchiveImportPreviewProps) {
+  const [entries, setEntries] = useState<ArchiveEntry[]>(preview.entries);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateEntry = (name: string, changes: Partial<ArchiveEntry>) => {
+    setEntries(prev => prev.map(entry => entry.name === name ? { ...entry, ...changes } : entry));
+  };
+
+  const confirmMutation = useMutation({
+    mutationFn: () => confirmArchiveImport(preview.importId, entries.map(entry => ({
+      name: entry.name,
+      include: entry.include,
+      type: entry.type || undefined,
+      subject: entry.subject || undefined,
+    }))),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/processing-jobs'] });
+      toast({ title: 'Import started', description: data.message });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Could not start import', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: () => discardArchiveImport(preview.importId),
+    onSettled: () => onClose(),
+  });
+
+  const included = entries.filter(entry => entry.include);
+  const incomplete = included.filter(entry => !entry.type || !entry.subject);
+
+  return (
+    <div className="mt-4 border border-slate-200 rounded-lg">
+      <div className="flex items-center justify-between p-3 border-b border-slate-200">
+        <div className="flex items-center space-x-2">
+          <Archive className="h-4 w-4 text-slate-600" />
+          <div>
+            <p className="text-sm font-medium text-slate-900">{preview.archiveName}</p>
+            <p className="text-xs text-slate-500">
+              {included.length} of {entries.length} files selected
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-slate-50">
+            <tr className="text-left text-slate-500">
+              <th className="font-medium p-2 w-8"></th>
+              <th className="font-medium p-2">File</th>
+              <th className="font-medium p-2">Type</th>
+              <th className="font-medium p-2">Subject</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.name} className="border-t border-slate-100 align-top">
+                <td className="p-2">
+                  <input
+                    type="checkbox"
+                    checked={entry.include}
+                    onChange={(e) => updateEntry(entry.name, { include: e.target.checked })}
+                    disabled={entry.kind === 'in'}
+                    className="rounded border-slate-300"
+                  />
+                </td>
+                <td className="p-2">
+                  <p className="text-slate-700 break-all">{entry.name}</p>
+                  {entry.kind && <p className="text-slate-400">{KIND_LABELS[entry.kind] || entry.kind}</p>}
+                  {entry.reason && <p className="text-amber-700">{entry.reason}</p>}
+                </td>
+                <td className="p-2">
+                  <select
+                    value={entry.type || ''}
+                    onChange={(e) => updateEntry(entry.name, { type: (e.target.value || null) as ArchiveEntry['type'] })}
+                    className="p-1 border border-slate-300 rounded"
+                  >
+                    <option value="">Choose...</option>
+                    <option value="syllabus">Syllabus</option>
+                    <option value="pastpaper">Past paper</option>
+                    <option value="markingscheme">Mark scheme</option>
+                  </select>
+                </td>
+                <td className="p-2">
+                  <select
+                    value={entry.subject || ''}
+                    onChange={(e) => updateEntry(entry.name, { subject: e.target.value || null })}
+                    className="p-1 border border-slate-300 rounded"
+                  >
+                    <option value="">Choose...</option>
+                    <option value="physics">Physics</option>
+                    <option value="chemistry">Chemistry</option>
+                    <option value="biology">Biology</option>
+                  </select>
+                  {entry.subjectSource === 'cover' && <p className="text-slate-400">From cover page</p>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between p-3 border-t border-slate-200">
+        <p className="text-xs text-amber-700">
+          {incomplete.length > 0 && `Choose a type and subject for ${incomplete.length} selected ${incomplete.length === 1 ? 'file' : 'files'}`}
+        </p>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => discardMutation.mutate()}
+            disabled={confirmMutation.isPending || discardMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => confirmMutation.mutate()}
+            disabled={included.length === 0 || incomplete.length > 0 || confirmMutation.isPending}
+          >
+            {confirmMutation.isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+            Import {included.length} {included.length === 1 ? 'file' : 'files'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,17 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { BookOpen, FileText, X } from "lucide-react";
-import { uploadFiles } from "@/lib/api";
+import { BookOpen, FileText, Loader2, X } from "lucide-react";
+import { uploadFiles, previewArchiveImport } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import ArchiveImportPreview, { type ArchivePreview } from "@/components/archive-import-preview";
+
+const MAX_PDF_SIZE = 50 * 1024 * 1024;
+const MAX_ARCHIVE_SIZE = 1024 * 1024 * 1024;
+
+function isArchive(file: File) {
+  return file.name.toLowerCase().endsWith('.zip');
+}
 
 interface FileUploadProps {
   type: 'syllabus' | 'pastpaper' | 'markingscheme';
@@ -34,13 +42,26 @@ export default function FileUpload({
 }: FileUploadProps) {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [selectedSubject, setSelectedSubject] = useState("physics");
+  const [replaceDuplicates, setReplaceDuplicates] = useState(false);
+  const [archivePreview, setArchivePreview] = useState<ArchivePreview | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const uploadMutation = useMutation({
     mutationFn: (data: { files: File[]; type: string; subject: string }) =>
-      uploadFiles(data.files, data.type, data.subject),
-    onSuccess: () => {
+      uploadFiles(data.files, data.type, data.subject, replaceDuplicates ? 'replace' : 'skip'),
+    onSuccess: (data) => {
+      const duplicates: Array<{ filename: string; existingFilename: string; action: string }> = data.duplicates || [];
+      if (duplicates.length > 0) {
+        toast({
+          title: `${duplicates.length} duplicate ${duplicates.length === 1 ? 'file' : 'files'}`,
+          description: duplicates.map(duplicate =>
+            duplicate.action === 'replaced'
+              ? `${duplicate.filename} replaced ${duplicate.existingFilename}`
+              : `${duplicate.filename} was already uploaded as ${duplicate.existingFilename}`
+          ).join('; '),
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
       queryClient.invalidateQueries({ queryKey: ['/api/topics'] });
       onFilesUploaded?.();
@@ -54,7 +75,28 @@ export default function FileUpload({
     }
   });
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  const previewMutation = useMutation({
+    mutationFn: (archive: File) => previewArchiveImport(archive),
+    onSuccess: (data) => setArchivePreview(data),
+    onError: (error) => {
+      toast({
+        title: "Archive Upload Failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const onDrop = useCallback((droppedFiles: File[]) => {
+    // Archives are unpacked on the server and previewed before anything is imported
+    const archive = droppedFiles.find(isArchive);
+    if (archive) {
+      previewMutation.mutate(archive);
+    }
+
+    const acceptedFiles = droppedFiles.filter(file => !isArchive(file));
+    if (acceptedFiles.length === 0) return;
+
     // Add files to upload list
     const newFiles = acceptedFiles.map(file => ({
       file,
@@ -96,15 +138,19 @@ export default function FileUpload({
         }
       }, 200);
     });
-  }, [uploadedFiles.length, acceptMultiple, type, selectedSubject, uploadMutation]);
+  }, [uploadedFiles.length, acceptMultiple, type, selectedSubject, uploadMutation, previewMutation]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/pdf': ['.pdf']
+      'application/pdf': ['.pdf'],
+      ...(acceptMultiple ? { 'application/zip': ['.zip'] } : {})
     },
     multiple: acceptMultiple,
-    maxSize: 50 * 1024 * 1024 // 50MB
+    maxSize: acceptMultiple ? MAX_ARCHIVE_SIZE : MAX_PDF_SIZE,
+    validator: (file) => !isArchive(file) && file.size > MAX_PDF_SIZE
+      ? { code: 'file-too-large', message: 'PDFs may be at most 50MB' }
+      : null
   });
 
   const removeFile = (index: number) => {
@@ -166,6 +212,16 @@ export default function FileUpload({
           </div>
         )}
 
+        <label className="flex items-center space-x-2 mb-4 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={replaceDuplicates}
+            onChange={(e) => setReplaceDuplicates(e.target.checked)}
+            className="rounded border-slate-300"
+          />
+          <span>Replace files that were uploaded before</span>
+        </label>
+
         {/* Drop Zone */}
         <div 
           {...getRootProps()}
@@ -189,11 +245,22 @@ export default function FileUpload({
               </p>
             </div>
             <p className="text-xs text-slate-400">
-              Supports: PDF up to 50MB each • {acceptMultiple ? 'Multiple files allowed' : 'Single file only'}
+              Supports: PDF up to 50MB each • {acceptMultiple ? 'Multiple files or a ZIP archive allowed' : 'Single file only'}
             </p>
           </div>
         </div>
 
+        {previewMutation.isPending && (
+          <div className="mt-4 flex items-center space-x-2 text-sm text-blue-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Unpacking archive...</span>
+          </div>
+        )}
+
+        {archivePreview && (
+          <ArchiveImportPreview preview={archivePreview} onClose={() => setArchivePreview(null)} />
+        )}
+
         {/* Uploaded Files Display */}
         {uploadedFiles.length > 0 && (
           <div className="mt-4 space-y-2">
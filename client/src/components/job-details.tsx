@@ -0,0 +1,118 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle, Info, Loader2, MinusCircle } from "lucide-react";
+import type { ProcessingJobEvent } from "@shared/schema";
+
+interface DocumentOutcome {
+  documentId: string;
+  filename: string;
+  status: 'processing' | 'completed' | 'failed' | 'skipped';
+  questions: number;
+  rejected: number;
+  tokensUsed: number;
+  durationMs: number;
+  error?: string;
+}
+
+interface JobDetailsProps {
+  job: any;
+}
+
+function formatDuration(durationMs: number) {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function formatTime(value: string | Date | null) {
+  return value ? new Date(value).toLocaleTimeString() : '';
+}
+
+// Per-document breakdown of a past paper job, followed by the job's event log
+export default function JobDetails({ job }: JobDetailsProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: [`/api/processing-job/${job.id}/events`],
+  });
+
+  const documents: DocumentOutcome[] = job.result?.documents || [];
+  const events: ProcessingJobEvent[] = (data as any)?.events || [];
+
+  const getOutcomeIcon = (outcome: DocumentOutcome) => {
+    switch (outcome.status) {
+      case 'processing':
+        return <Loader2 className="h-3 w-3 text-blue-600 animate-spin" />;
+      case 'failed':
+        return <AlertCircle className="h-3 w-3 text-red-600" />;
+      case 'skipped':
+        return <MinusCircle className="h-3 w-3 text-amber-600" />;
+      default:
+        return outcome.questions === 0
+          ? <AlertCircle className="h-3 w-3 text-amber-600" />
+          : <CheckCircle className="h-3 w-3 text-emerald-600" />;
+    }
+  };
+
+  const getEventColor = (level: string) => {
+    switch (level) {
+      case 'error':
+        return 'text-red-600';
+      case 'warning':
+        return 'text-amber-700';
+      default:
+        return 'text-slate-600';
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-3">
+      {documents.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="font-medium pb-1">Document</th>
+                <th className="font-medium pb-1 text-right">Questions</th>
+                <th className="font-medium pb-1 text-right">Rejected</th>
+                <th className="font-medium pb-1 text-right">Tokens</th>
+                <th className="font-medium pb-1 text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {documents.map(outcome => (
+                <tr key={outcome.documentId} className="border-t border-slate-100 align-top">
+                  <td className="py-1 pr-2">
+                    <div className="flex items-center space-x-1">
+                      {getOutcomeIcon(outcome)}
+                      <span className="text-slate-700 truncate">{outcome.filename}</span>
+                    </div>
+                    {outcome.error && <p className="text-red-600 ml-4">{outcome.error}</p>}
+                  </td>
+                  <td className="py-1 text-right text-slate-700">{outcome.questions ?? '-'}</td>
+                  <td className="py-1 text-right text-slate-700">{outcome.rejected ?? '-'}</td>
+                  <td className="py-1 text-right text-slate-700">{outcome.tokensUsed?.toLocaleString() ?? '-'}</td>
+                  <td className="py-1 text-right text-slate-700">{outcome.durationMs !== undefined ? formatDuration(outcome.durationMs) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-medium text-slate-700 mb-1">Event Log</p>
+        {isLoading ? (
+          <Loader2 className="h-3 w-3 text-slate-400 animate-spin" />
+        ) : events.length > 0 ? (
+          <ul className="max-h-48 overflow-y-auto space-y-1">
+            {events.map(event => (
+              <li key={event.id} className={`flex items-start space-x-2 text-xs ${getEventColor(event.level)}`}>
+                <Info className="h-3 w-3 mt-0.5 shrink-0" />
+                <span className="text-slate-400 shrink-0">{formatTime(event.createdAt)}</span>
+                <span>{event.message}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-400">No events recorded for this job</p>
+        )}
+      </div>
+    </div>
+  );
+}
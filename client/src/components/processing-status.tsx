@@ -1,15 +1,78 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Settings, CheckCircle, Loader2, Clock, Brain, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Settings, CheckCircle, Loader2, Clock, Brain, AlertCircle, FileText, XCircle, RotateCcw, ChevronDown, ChevronUp, Archive } from "lucide-react";
+import { cancelProcessingJob, retryProcessingJob } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import JobDetails from "@/components/job-details";
 
 export default function ProcessingStatus() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+
   const { data } = useQuery({
     queryKey: ['/api/processing-jobs'],
-    refetchInterval: 2000, // Poll every 2 seconds
+  });
+
+  const { data: historyData } = useQuery({
+    queryKey: ['/api/processing-jobs/history'],
   });
 
   const jobs = (data as any)?.jobs || [];
+  const finishedJobs = ((historyData as any)?.jobs || [])
+    .filter((job: any) => job.status !== 'pending' && job.status !== 'processing')
+    .slice(0, 5);
+
+  const refreshJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/processing-jobs'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/processing-jobs/history'] });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: (jobId: string) => cancelProcessingJob(jobId),
+    onSuccess: () => {
+      refreshJobs();
+      toast({ title: 'Job cancelled', description: 'Processing stops after the current step' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Could not cancel job', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (jobId: string) => retryProcessingJob(jobId),
+    onSuccess: (data) => {
+      refreshJobs();
+      toast({ title: 'Retry queued', description: data.message });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Could not retry job', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  // Past paper and archive import jobs can be retried for just the documents that failed
+  const canRetry = (job: any) =>
+    job.status === 'error' || job.status === 'cancelled' ||
+    ((job.type === 'question_extraction' || job.type === 'archive_import') && (job.result?.documentsFailed || 0) > 0);
+
+  const toggleDetails = (jobId: string) => {
+    setExpandedJobId(current => current === jobId ? null : jobId);
+  };
+
+  const renderDetailsToggle = (job: any) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-7 px-2 text-xs text-slate-600"
+      onClick={() => toggleDetails(job.id)}
+    >
+      {expandedJobId === job.id ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+      Details
+    </Button>
+  );
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -19,6 +82,8 @@ export default function ProcessingStatus() {
         return <Loader2 className="text-blue-600 animate-spin" />;
       case 'error':
         return <AlertCircle className="text-red-600" />;
+      case 'cancelled':
+        return <XCircle className="text-slate-500" />;
       default:
         return <Clock className="text-slate-400" />;
     }
@@ -26,12 +91,16 @@ export default function ProcessingStatus() {
 
   const getJobTypeIcon = (type: string) => {
     switch (type) {
+      case 'document_processing':
+        return <FileText className="h-4 w-4 text-slate-600" />;
       case 'syllabus_analysis':
         return <Brain className="h-4 w-4 text-purple-600" />;
       case 'question_extraction':
         return <Settings className="h-4 w-4 text-green-600" />;
       case 'pdf_generation':
         return <Settings className="h-4 w-4 text-blue-600" />;
+      case 'archive_import':
+        return <Archive className="h-4 w-4 text-amber-600" />;
       default:
         return <Settings className="h-4 w-4 text-slate-400" />;
     }
@@ -39,12 +108,16 @@ export default function ProcessingStatus() {
 
   const getJobTypeTitle = (type: string) => {
     switch (type) {
+      case 'document_processing':
+        return 'Document Processing';
       case 'syllabus_analysis':
         return 'Syllabus Analysis';
       case 'question_extraction':
         return 'Question Extraction';
       case 'pdf_generation':
         return 'PDF Generation';
+      case 'archive_import':
+        return 'Archive Import';
       default:
         return 'Processing';
     }
@@ -97,6 +170,8 @@ export default function ProcessingStatus() {
         return 'Processing';
       case 'error':
         return 'Error';
+      case 'cancelled':
+        return 'Cancelled';
       default:
         return 'Pending';
     }
@@ -131,9 +206,22 @@ export default function ProcessingStatus() {
                       </p>
                     </div>
                   </div>
-                  <span className={`text-xs px-2 py-1 rounded font-medium ${getStatusBadgeColor(job.status)}`}>
-                    {getStatusBadgeText(job.status)}
-                  </span>
+                  <div className="flex items-center space-x-2">
+                    <span className={`text-xs px-2 py-1 rounded font-medium ${getStatusBadgeColor(job.status)}`}>
+                      {getStatusBadgeText(job.status)}
+                    </span>
+                    {renderDetailsToggle(job)}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-slate-600"
+                      onClick={() => cancelMutation.mutate(job.id)}
+                      disabled={cancelMutation.isPending}
+                    >
+                      <XCircle className="h-3 w-3" />
+                      Cancel
+                    </Button>
+                  </div>
                 </div>
                 
                 {job.status === 'processing' && job.progress !== undefined && (
@@ -159,6 +247,15 @@ export default function ProcessingStatus() {
                     Extracted {job.result.topicCount || 0} topics and {job.result.subtopicCount || 0} subtopics
                   </div>
                 )}
+
+                {Array.isArray(job.rejects) && job.rejects.length > 0 && (
+                  <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-700">
+                    <AlertCircle className="h-3 w-3 inline mr-1" />
+                    {job.rejects.length} AI {job.rejects.length === 1 ? 'response' : 'responses'} failed validation and {job.rejects.length === 1 ? 'was' : 'were'} not saved
+                  </div>
+                )}
+
+                {expandedJobId === job.id && <JobDetails job={job} />}
               </div>
             ))
           ) : (
@@ -169,6 +266,46 @@ export default function ProcessingStatus() {
             </div>
           )}
         </div>
+
+        {finishedJobs.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-sm font-medium text-slate-700 mb-2">Recent Jobs</h4>
+            <div className="space-y-2">
+              {finishedJobs.map((job: any) => (
+                <div key={job.id} className="p-2 border border-slate-200 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      {getJobTypeIcon(job.type)}
+                      <div className="min-w-0">
+                        <p className="text-xs font-medium text-slate-700">{getJobTypeTitle(job.type)}</p>
+                        <p className="text-xs text-slate-500 truncate">{job.error || job.statusMessage}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0">
+                      <span className={`text-xs px-2 py-1 rounded font-medium ${getStatusBadgeColor(job.status)}`}>
+                        {getStatusBadgeText(job.status)}
+                      </span>
+                      {renderDetailsToggle(job)}
+                      {canRetry(job) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => retryMutation.mutate(job.id)}
+                          disabled={retryMutation.isPending}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Retry
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {expandedJobId === job.id && <JobDetails job={job} />}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -176,12 +313,16 @@ export default function ProcessingStatus() {
 
 function getJobTypeLabel(type: string): string {
   switch (type) {
+    case 'document_processing':
+      return 'Reading Document';
     case 'syllabus_analysis':
       return 'Analyzing Syllabus';
     case 'question_extraction':
       return 'Extracting Questions';
     case 'pdf_generation':
       return 'Generating PDF';
+    case 'archive_import':
+      return 'Importing Archive';
     default:
       return 'Processing...';
   }
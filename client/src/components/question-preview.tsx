@@ -1,10 +1,12 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { FileText, Calendar, Award, Triangle, Trash2, Download, Plus } from "lucide-react";
+import { FileText, Calendar, Award, Triangle, Trash2, Download, Plus, Clock, FilePlus } from "lucide-react";
+import { getWorksheetDraft, createWorksheetDraft, updateWorksheetDraft, deleteWorksheetDraft } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
 import {
   DndContext,
   closestCenter,
@@ -38,6 +40,19 @@ interface Question {
   hasVectorDiagram: boolean | null;
 }
 
+interface WorksheetDraft {
+  id: string;
+  name: string;
+  questionIds: string[];
+  updatedAt: string;
+}
+
+// Cambridge theory papers allow roughly this long per mark; unmarked questions aren't counted
+const MINUTES_PER_MARK = 1.25;
+
+// The builder's selection is saved this long after its last change
+const SAVE_DELAY_MS = 800;
+
 interface QuestionPreviewProps {
   selectedTopic: string;
   onGeneratePdf: (selectedQuestions: string[]) => void;
@@ -174,6 +189,17 @@ function SortableQuestionCard({ question, index, onRemove }: {
 export default function QuestionPreview({ selectedTopic, onGeneratePdf }: QuestionPreviewProps) {
   const [pdfQuestions, setPdfQuestions] = useState<Question[]>([]);
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<'saving' | 'saved' | 'error' | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The worksheet being edited; a new one has no id until its first save creates the draft
+  const session = useRef<{ id: string | null }>({ id: null });
+  const pendingSave = useRef<(() => void) | null>(null);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const skipNextSave = useRef(true);
+  const openedLatestDraft = useRef(false);
   
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -187,6 +213,115 @@ export default function QuestionPreview({ selectedTopic, onGeneratePdf }: Questi
     enabled: !!selectedTopic,
   });
 
+  const { data: draftsData } = useQuery({
+    queryKey: ['/api/worksheet-drafts'],
+  });
+  const drafts: WorksheetDraft[] = (draftsData as any)?.drafts || [];
+
+  // Moves the builder to another worksheet, first saving a change still waiting on its timer
+  const switchTo = (id: string | null, questions: Question[]) => {
+    pendingSave.current?.();
+    session.current = { id };
+    skipNextSave.current = true;
+    setDraftId(id);
+    setPdfQuestions(questions);
+    setSaveState(null);
+  };
+
+  const openDraft = async (id: string) => {
+    try {
+      const data = await getWorksheetDraft(id);
+      switchTo(id, data.questions);
+      if (data.missing.length > 0) {
+        toast({
+          title: "Some questions are gone",
+          description: `${data.missing.length} ${data.missing.length === 1 ? 'question was' : 'questions were'} removed from the question bank and dropped from this worksheet`,
+        });
+      }
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to open worksheet", variant: "destructive" });
+    }
+  };
+
+  // Carry on with the most recent worksheet the first time the builder opens
+  useEffect(() => {
+    if (openedLatestDraft.current || !draftsData) return;
+    openedLatestDraft.current = true;
+    if (drafts[0]) void openDraft(drafts[0].id);
+  }, [draftsData]);
+
+  // Saves run one after another, so the one that creates a new worksheet's draft
+  // has finished before the next looks for its id
+  const saveDraft = async (target: { id: string | null }, questionIds: string[]) => {
+    if (!target.id && questionIds.length === 0) return;
+
+    const showState = (state: 'saving' | 'saved' | 'error') => {
+      if (target === session.current) setSaveState(state);
+    };
+    showState('saving');
+    try {
+      if (target.id) {
+        await updateWorksheetDraft(target.id, { questionIds });
+      } else {
+        const { draft } = await createWorksheetDraft(`Worksheet ${new Date().toLocaleDateString()}`, questionIds);
+        target.id = draft.id;
+        if (target === session.current) setDraftId(draft.id);
+      }
+      showState('saved');
+      queryClient.invalidateQueries({ queryKey: ['/api/worksheet-drafts'] });
+    } catch {
+      showState('error');
+    }
+  };
+
+  useEffect(() => {
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    const target = session.current;
+    const questionIds = pdfQuestions.map(q => q.id);
+    const save = () => {
+      pendingSave.current = null;
+      saveQueue.current = saveQueue.current.then(() => saveDraft(target, questionIds));
+    };
+    pendingSave.current = save;
+    const timer = setTimeout(save, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [pdfQuestions]);
+
+  // Closing the builder doesn't lose the last change
+  useEffect(() => () => pendingSave.current?.(), []);
+
+  // The current worksheet stays saved and can be picked again from the list
+  const startNewDraft = () => switchTo(null, []);
+
+  const discardDraft = async () => {
+    const target = session.current;
+    pendingSave.current = null;
+    switchTo(null, []);
+    // A first save still in flight is creating the draft; wait for it to learn the id
+    await saveQueue.current;
+    if (!target.id) return;
+
+    try {
+      await deleteWorksheetDraft(target.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/worksheet-drafts'] });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to delete worksheet", variant: "destructive" });
+    }
+  };
+
+  const totals = useMemo(() => {
+    const marks = pdfQuestions.reduce((sum, q) => sum + (q.marks || 0), 0);
+    return {
+      marks,
+      unmarked: pdfQuestions.filter(q => !q.marks).length,
+      diagrams: pdfQuestions.filter(q => q.hasVectorDiagram).length,
+      minutes: Math.round(marks * MINUTES_PER_MARK),
+    };
+  }, [pdfQuestions]);
+
   const questions = (questionsData as any)?.questions || [];
   const availableQuestions = questions.filter((q: Question) => 
     !pdfQuestions.find(pq => pq.id === q.id)
@@ -229,28 +364,6 @@ export default function QuestionPreview({ selectedTopic, onGeneratePdf }: Questi
 
   const activeQuestion = activeId ? pdfQuestions.find(q => q.id === activeId) : null;
 
-  if (isLoading) {
-    return (
-      <Card>
-        <CardContent className="p-6">
-          <div className="flex items-center justify-center h-32">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
-
-  if (!selectedTopic) {
-    return (
-      <Card>
-        <CardContent className="p-6">
-          <p className="text-slate-500 text-center">Select a topic to view questions</p>
-        </CardContent>
-      </Card>
-    );
-  }
-
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Available Questions */}
@@ -263,15 +376,23 @@ export default function QuestionPreview({ selectedTopic, onGeneratePdf }: Questi
         </CardHeader>
         <CardContent>
           <ScrollArea className="h-96">
-            <div className="space-y-2 p-2">
-              {availableQuestions.map((question: Question) => (
-                <QuestionCard
-                  key={question.id}
-                  question={question}
-                  onAdd={addToPdf}
-                />
-              ))}
-            </div>
+            {!selectedTopic ? (
+              <p className="text-slate-500 text-center p-6">Select a topic to view questions</p>
+            ) : isLoading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="space-y-2 p-2">
+                {availableQuestions.map((question: Question) => (
+                  <QuestionCard
+                    key={question.id}
+                    question={question}
+                    onAdd={addToPdf}
+                  />
+                ))}
+              </div>
+            )}
           </ScrollArea>
         </CardContent>
       </Card>
@@ -292,6 +413,42 @@ export default function QuestionPreview({ selectedTopic, onGeneratePdf }: Questi
               Generate PDF
             </Button>
           </CardTitle>
+          <div className="flex items-center space-x-2 pt-2">
+            <select
+              value={draftId || ''}
+              onChange={(e) => e.target.value ? openDraft(e.target.value) : startNewDraft()}
+              className="flex-1 min-w-0 p-1 text-sm border border-slate-300 rounded"
+            >
+              <option value="">{draftId ? 'New worksheet' : 'New worksheet (unsaved)'}</option>
+              {drafts.map(draft => (
+                <option key={draft.id} value={draft.id}>
+                  {draft.name} ({draft.questionIds.length})
+                </option>
+              ))}
+            </select>
+            <Button variant="ghost" size="sm" onClick={startNewDraft} title="Start a new worksheet" className="h-7 w-7 p-0">
+              <FilePlus className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={discardDraft} title="Delete this worksheet" className="h-7 w-7 p-0">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center justify-between text-xs text-slate-500 pt-1">
+            <span>
+              {pdfQuestions.length} {pdfQuestions.length === 1 ? 'question' : 'questions'}
+              {' · '}{totals.marks} marks{totals.unmarked > 0 && ` (+${totals.unmarked} unmarked)`}
+              {' · '}{totals.diagrams} {totals.diagrams === 1 ? 'diagram' : 'diagrams'}
+            </span>
+            <span className="flex items-center space-x-1">
+              <Clock className="h-3 w-3" />
+              <span>~{totals.minutes} min</span>
+            </span>
+          </div>
+          {saveState && (
+            <p className={`text-xs ${saveState === 'error' ? 'text-red-600' : 'text-slate-400'}`}>
+              {saveState === 'saving' ? 'Saving...' : saveState === 'saved' ? 'Saved' : 'Could not save this worksheet'}
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <ScrollArea className="h-96">
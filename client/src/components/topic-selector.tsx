@@ -7,6 +7,7 @@ import { List, Brain, Loader2, FileText } from "lucide-react";
 import { processSyllabus } from "@/lib/api";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { TopicNode } from "@shared/schema";
 
 interface TopicSelectorProps {
   selectedSubject: string;
@@ -28,9 +29,8 @@ export default function TopicSelector({
   const queryClient = useQueryClient();
 
   const { data: topicsData, isLoading: topicsLoading, refetch: refetchTopics } = useQuery({
-    queryKey: [`/api/topics/${currentSubject}`],
+    queryKey: [`/api/topics/${currentSubject}/tree`],
     enabled: !!currentSubject,
-    refetchInterval: 5000, // Refresh every 5 seconds to catch new topics
   });
 
   const processSyllabusMutation = useMutation({
@@ -41,7 +41,7 @@ export default function TopicSelector({
         description: "The syllabus is being analyzed to extract topics and subtopics.",
       });
       // Invalidate topics immediately to refresh the query
-      queryClient.invalidateQueries({ queryKey: [`/api/topics/${currentSubject}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/topics/${currentSubject}/tree`] });
     },
     onError: (error) => {
       toast({
@@ -52,65 +52,21 @@ export default function TopicSelector({
     }
   });
 
-  // Listen for processing job completion to refresh topics
-  const { data: processingJobs } = useQuery({
-    queryKey: ['/api/processing-jobs'],
-    refetchInterval: 2000,
-  });
-
-  useEffect(() => {
-    const jobs = (processingJobs as any)?.jobs || [];
-    const completedSyllabusJob = jobs.find((job: any) => 
-      job.type === 'syllabus_analysis' && job.status === 'completed'
-    );
-    
-    if (completedSyllabusJob) {
-      // Refresh topics when syllabus processing completes
-      queryClient.invalidateQueries({ queryKey: [`/api/topics/${currentSubject}`] });
-    }
-  }, [processingJobs, currentSubject, queryClient]);
-
   const { data: questionsData } = useQuery({
     queryKey: [`/api/questions/topic/${currentTopic}`],
     enabled: !!currentTopic,
   });
 
-  // Group topics by main topic
-  const groupedTopics = (topicsData as any)?.topics?.reduce((acc: any, topic: any) => {
-    if (!acc[topic.mainTopic]) {
-      acc[topic.mainTopic] = {
-        id: topic.id,
-        mainTopic: topic.mainTopic,
-        subtopics: []
-      };
-    }
-    if (topic.subtopic) {
-      acc[topic.mainTopic].subtopics.push({
-        id: topic.id,
-        subtopic: topic.subtopic
-      });
-    }
-    return acc;
-  }, {}) || {};
-
-  // Get unique main topics (by mainTopic name, regardless of subtopic value)
-  const mainTopicNames = new Set();
-  const mainTopicsFromAPI = (topicsData as any)?.topics?.filter((topic: any) => {
-    if (!mainTopicNames.has(topic.mainTopic)) {
-      mainTopicNames.add(topic.mainTopic);
-      return true;
-    }
-    return false;
-  }) || [];
-
-  const mainTopics = mainTopicsFromAPI;
-  const selectedTopicKey = Object.keys(groupedTopics).find((key: string) => 
-    groupedTopics[key].id === currentTopic || 
-    groupedTopics[key].subtopics.some((st: any) => st.id === currentTopic)
+  // Main topics are the roots of the syllabus tree, with their subtopics as children
+  const mainTopics: TopicNode[] = (topicsData as any)?.topics || [];
+  const selectedTopicData = mainTopics.find(topic =>
+    topic.id === currentTopic || topic.children.some(child => child.id === currentTopic)
   );
-  const selectedTopicData = selectedTopicKey ? groupedTopics[selectedTopicKey] : null;
 
-  const subtopics = selectedTopicData?.subtopics || [];
+  const subtopics = selectedTopicData?.children || [];
+  const selectedSubtopicData = subtopics.find(subtopic => subtopic.id === currentSubtopic);
+  const learningObjectives = (selectedSubtopicData?.learningObjectives as string[] | null) || [];
+  const numbered = (topic: TopicNode, name: string | null) => topic.code ? `${topic.code} ${name}` : name;
 
   useEffect(() => {
     if (currentTopic && currentSubject) {
@@ -260,7 +216,7 @@ export default function TopicSelector({
                   No topics found. Upload a syllabus and click "Process Syllabus" to extract topics using AI.
                 </p>
                 <p className="text-xs text-slate-400 text-center mt-1">
-                  Found {(topicsData as any)?.topics?.length || 0} topic entries
+                  Found {mainTopics.length} topic entries
                 </p>
 
               </div>
@@ -270,9 +226,9 @@ export default function TopicSelector({
                   <SelectValue placeholder="Select a main topic..." />
                 </SelectTrigger>
                 <SelectContent>
-                  {mainTopics.map((topic: any) => (
+                  {mainTopics.map(topic => (
                     <SelectItem key={topic.id} value={topic.id}>
-                      {topic.mainTopic}
+                      {numbered(topic, topic.mainTopic)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -295,9 +251,9 @@ export default function TopicSelector({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All subtopics</SelectItem>
-                    {subtopics.map((subtopic: any) => (
+                    {subtopics.map(subtopic => (
                       <SelectItem key={subtopic.id} value={subtopic.id}>
-                        {subtopic.subtopic}
+                        {numbered(subtopic, subtopic.subtopic)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -312,6 +268,17 @@ export default function TopicSelector({
             </div>
           )}
 
+          {learningObjectives.length > 0 && (
+            <div className="rounded-lg border border-slate-200 p-3" data-testid="list-learning-objectives">
+              <p className="text-xs font-medium text-slate-700 mb-1">Learning objectives</p>
+              <ul className="list-disc pl-4 space-y-0.5">
+                {learningObjectives.map((objective, index) => (
+                  <li key={index} className="text-xs text-slate-600">{objective}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Topic Statistics */}
           {currentTopic && (
             <div className="bg-slate-50 rounded-lg p-4 space-y-2">
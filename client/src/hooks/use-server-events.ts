@@ -0,0 +1,80 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import type { ProcessingJob, ProcessingJobEvent } from "@shared/schema";
+
+// Topics and questions arrive in bursts while a job runs, so their lists refresh at most this often
+const REFRESH_DELAY_MS = 500;
+
+function isActive(job: ProcessingJob) {
+  return job.status === 'pending' || job.status === 'processing';
+}
+
+function keyStartsWith(prefix: string) {
+  return {
+    predicate: (query: { queryKey: readonly unknown[] }) =>
+      typeof query.queryKey[0] === 'string' && query.queryKey[0].startsWith(prefix),
+  };
+}
+
+function applyJobUpdate(queryClient: QueryClient, job: ProcessingJob) {
+  queryClient.setQueryData([`/api/processing-job/${job.id}`], job);
+
+  queryClient.setQueryData(['/api/processing-jobs'], (data: { jobs: ProcessingJob[] } | undefined) => {
+    if (!data) return data;
+    const others = data.jobs.filter(existing => existing.id !== job.id);
+    return { jobs: isActive(job) ? [job, ...others] : others };
+  });
+
+  if (!isActive(job)) {
+    queryClient.invalidateQueries({ queryKey: ['/api/processing-jobs/history'] });
+    if (job.type === 'pdf_generation' && job.status === 'completed') {
+      queryClient.invalidateQueries({ queryKey: ['/api/generated-pdfs'] });
+    }
+  }
+}
+
+// Appends to the job's event log if it is open; an unopened log is fetched whole when opened
+function applyJobEvent(queryClient: QueryClient, event: ProcessingJobEvent) {
+  queryClient.setQueryData([`/api/processing-job/${event.jobId}/events`], (data: { events: ProcessingJobEvent[] } | undefined) =>
+    data && !data.events.some(existing => existing.id === event.id) ? { events: [...data.events, event] } : data
+  );
+}
+
+// Keeps cached queries in step with the server through the GET /api/events stream.
+// Mount once; EventSource reconnects on its own after the connection drops.
+export function useServerEvents() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const source = new EventSource('/api/events');
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const refreshSoon = (prefix: string) => {
+      if (timers.has(prefix)) return;
+      timers.set(prefix, setTimeout(() => {
+        timers.delete(prefix);
+        queryClient.invalidateQueries(keyStartsWith(prefix));
+      }, REFRESH_DELAY_MS));
+    };
+
+    source.addEventListener('job', event => {
+      applyJobUpdate(queryClient, JSON.parse((event as MessageEvent).data).job);
+    });
+    source.addEventListener('job_event', event => {
+      applyJobEvent(queryClient, JSON.parse((event as MessageEvent).data).event);
+    });
+    source.addEventListener('document', () => refreshSoon('/api/documents'));
+    source.addEventListener('topic', () => refreshSoon('/api/topics'));
+    source.addEventListener('question', () => refreshSoon('/api/questions'));
+
+    // Anything missed while disconnected is fetched again
+    source.addEventListener('open', () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/processing-jobs'] });
+    });
+
+    return () => {
+      source.close();
+      timers.forEach(timer => clearTimeout(timer));
+    };
+  }, [queryClient]);
+}
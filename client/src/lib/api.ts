@@ -1,10 +1,12 @@
 import { apiRequest } from "./queryClient";
 
-export async function uploadFiles(files: File[], type: string, subject: string) {
+// Files matching an earlier upload are skipped unless `duplicates` says to link or replace them
+export async function uploadFiles(files: File[], type: string, subject: string, duplicates: 'skip' | 'link' | 'replace' = 'skip') {
   const formData = new FormData();
   files.forEach(file => formData.append('files', file));
   formData.append('type', type);
   formData.append('subject', subject);
+  formData.append('duplicates', duplicates);
 
   const response = await fetch('/api/upload', {
     method: 'POST',
@@ -20,6 +22,38 @@ export async function uploadFiles(files: File[], type: string, subject: string)
   return response.json();
 }
 
+// Unpacks a ZIP archive on the server and returns how each file in it would be imported
+export async function previewArchiveImport(archive: File) {
+  const formData = new FormData();
+  formData.append('archive', archive);
+
+  const response = await fetch('/api/import/preview', {
+    method: 'POST',
+    body: formData,
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(error || 'Archive upload failed');
+  }
+
+  return response.json();
+}
+
+export async function confirmArchiveImport(
+  importId: string,
+  entries: Array<{ name: string; include: boolean; type?: string; subject?: string }>
+) {
+  const response = await apiRequest('POST', `/api/import/${importId}/confirm`, { entries });
+  return response.json();
+}
+
+export async function discardArchiveImport(importId: string) {
+  const response = await apiRequest('DELETE', `/api/import/${importId}`);
+  return response.json();
+}
+
 export async function processSyllabus(subject: string) {
   const response = await apiRequest('POST', '/api/process-syllabus', {
     subject
@@ -42,11 +76,56 @@ export async function getProcessingJob(jobId: string) {
   return response.json();
 }
 
+export async function cancelProcessingJob(jobId: string) {
+  const response = await apiRequest('POST', `/api/processing-job/${jobId}/cancel`);
+  return response.json();
+}
+
+export async function retryProcessingJob(jobId: string) {
+  const response = await apiRequest('POST', `/api/processing-job/${jobId}/retry`);
+  return response.json();
+}
+
 export async function getRecentGeneratedPdfs() {
   const response = await apiRequest('GET', '/api/generated-pdfs');
   return response.json();
 }
 
+export async function updateGeneratedPdf(pdfId: string, updates: { filename?: string; pinned?: boolean }) {
+  const response = await apiRequest('PATCH', `/api/generated-pdfs/${pdfId}`, updates);
+  return response.json();
+}
+
+export async function regenerateGeneratedPdf(pdfId: string, mode: 'exact' | 'refresh') {
+  const response = await apiRequest('POST', `/api/generated-pdfs/${pdfId}/regenerate`, { mode });
+  return response.json();
+}
+
+export async function deleteGeneratedPdf(pdfId: string) {
+  const response = await apiRequest('DELETE', `/api/generated-pdfs/${pdfId}`);
+  return response.json();
+}
+
+export async function getWorksheetDraft(draftId: string) {
+  const response = await apiRequest('GET', `/api/worksheet-drafts/${draftId}`);
+  return response.json();
+}
+
+export async function createWorksheetDraft(name: string, questionIds: string[]) {
+  const response = await apiRequest('POST', '/api/worksheet-drafts', { name, questionIds });
+  return response.json();
+}
+
+export async function updateWorksheetDraft(draftId: string, updates: { name?: string; questionIds?: string[] }) {
+  const response = await apiRequest('PATCH', `/api/worksheet-drafts/${draftId}`, updates);
+  return response.json();
+}
+
+export async function deleteWorksheetDraft(draftId: string) {
+  const response = await apiRequest('DELETE', `/api/worksheet-drafts/${draftId}`);
+  return response.json();
+}
+
 export async function downloadPdf(pdfId: string) {
   window.open(`/api/download-pdf/${pdfId}`, '_blank');
 }
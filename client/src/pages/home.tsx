@@ -8,8 +8,13 @@ import ProgressSteps from "@/components/progress-steps";
 import QuestionPreview from "@/components/question-preview";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Brain, Cog, HelpCircle } from "lucide-react";
-import { generatePdf, getRecentGeneratedPdfs } from "@/lib/api";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
+} from "@/components/ui/alert-dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Brain, Cog, HelpCircle, Pin, PinOff, RefreshCw, Trash2 } from "lucide-react";
+import { generatePdf, getRecentGeneratedPdfs, updateGeneratedPdf, deleteGeneratedPdf, regenerateGeneratedPdf } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
@@ -102,6 +107,51 @@ export default function Home() {
     window.open(`/api/download-pdf/${pdfId}`, '_blank');
   };
 
+  // Pinned PDFs are kept when the retention policy removes old ones
+  const pinPdfMutation = useMutation({
+    mutationFn: ({ pdfId, pinned }: { pdfId: string; pinned: boolean }) => updateGeneratedPdf(pdfId, { pinned }),
+    onSuccess: () => refetchPdfs(),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update PDF", variant: "destructive" });
+    }
+  });
+
+  const deletePdfMutation = useMutation({
+    mutationFn: (pdfId: string) => deleteGeneratedPdf(pdfId),
+    onSuccess: () => refetchPdfs(),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete PDF", variant: "destructive" });
+    }
+  });
+
+  // Rebuilds a PDF as a new entry, from its recorded questions or their current versions
+  const regeneratePdfMutation = useMutation({
+    mutationFn: ({ pdfId, mode }: { pdfId: string; mode: 'exact' | 'refresh' }) => regenerateGeneratedPdf(pdfId, mode),
+    onSuccess: (data) => {
+      const notes = [
+        data.changed.length > 0 ? `${data.changed.length} updated` : null,
+        data.missing.length > 0 ? `${data.missing.length} no longer in the question bank` : null,
+      ].filter(Boolean);
+      toast({
+        title: "PDF regenerated",
+        description: data.mode === 'refresh' && notes.length > 0
+          ? `Questions: ${notes.join(', ')}`
+          : `${data.pdf.questionCount} questions`,
+      });
+      refetchPdfs();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to regenerate PDF", variant: "destructive" });
+    }
+  });
+
+  const formatFileSize = (bytes: number | null) => {
+    if (bytes === null) return null;
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
   return (
     <div className="bg-slate-50 font-inter min-h-screen">
       {/* Header */}
@@ -240,17 +290,77 @@ export default function Home() {
                             <p className="text-sm font-medium text-slate-900">{pdf.filename}</p>
                             <p className="text-xs text-slate-500">
                               Generated {new Date(pdf.createdAt).toLocaleDateString()}
+                              {pdf.fileSize !== null && ` · ${formatFileSize(pdf.fileSize)}`}
                             </p>
                           </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => downloadPdf(pdf.id)}
-                          className="text-blue-600 hover:text-blue-700"
-                        >
-                          <i className="fas fa-download"></i>
-                        </Button>
+                        <div className="flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => pinPdfMutation.mutate({ pdfId: pdf.id, pinned: !pdf.pinned })}
+                            title={pdf.pinned ? "Unpin (may be removed by cleanup)" : "Pin (kept by cleanup)"}
+                            className={pdf.pinned ? "text-amber-600 hover:text-amber-700" : "text-slate-400 hover:text-slate-600"}
+                          >
+                            {pdf.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                          </Button>
+                          {pdf.snapshot && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={regeneratePdfMutation.isPending}
+                                  title="Regenerate"
+                                  className="text-slate-400 hover:text-slate-600"
+                                >
+                                  <RefreshCw className={`h-4 w-4 ${regeneratePdfMutation.isPending && regeneratePdfMutation.variables?.pdfId === pdf.id ? 'animate-spin' : ''}`} />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => regeneratePdfMutation.mutate({ pdfId: pdf.id, mode: 'exact' })}>
+                                  Regenerate exactly as before
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => regeneratePdfMutation.mutate({ pdfId: pdf.id, mode: 'refresh' })}>
+                                  Regenerate with current questions
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={deletePdfMutation.isPending}
+                                title="Delete"
+                                className="text-slate-400 hover:text-red-600"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete this PDF?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {pdf.filename} will be removed and can no longer be downloaded or regenerated.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => deletePdfMutation.mutate(pdf.id)}>Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => downloadPdf(pdf.id)}
+                            className="text-blue-600 hover:text-blue-700"
+                          >
+                            <i className="fas fa-download"></i>
+                          </Button>
+                        </div>
                       </div>
                     ))
                   ) : (
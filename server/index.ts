@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobQueue } from "./services/jobQueue";
+import { pdfRetention } from "./services/pdfRetention";
+import { archiveImporter } from "./services/archiveImporter";
 
 const app = express();
 app.use(express.json());
@@ -68,4 +71,13 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Picks up queued jobs, including any interrupted by the last shutdown
+  await jobQueue.start();
+
+  // Applies the generated PDF retention policy at startup and then on a timer
+  pdfRetention.start();
+
+  // Removes unpacked archives that were left without a confirm, cancel or retry
+  archiveImporter.start();
 })();
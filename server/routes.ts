@@ -3,16 +3,61 @@ import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { storage } from "./storage";
-import { pdfProcessor } from "./services/pdfProcessor";
-import { pdfGenerator } from "./services/pdfGenerator";
+import { storage, decodeSearchCursor } from "./storage";
+import { pdfProcessor, type QuestionSourceData } from "./services/pdfProcessor";
+import { pdfGenerator, type AnswerSchemeMap } from "./services/pdfGenerator";
+import { markSchemeProcessor } from "./services/markSchemeProcessor";
+import { questionSegmenter } from "./services/questionSegmenter";
+import { syllabusChunker, type SyllabusChunk } from "./services/syllabusChunker";
+import { topicMatcher, UNCLASSIFIED_TOPIC, UNCLASSIFIED_SORT_ORDER, type TopicTag } from "./services/topicMatcher";
+import { paperIdentityParser, type PaperSeries } from "./services/paperIdentity";
+import { jobQueue, type JobType } from "./services/jobQueue";
+import { archiveImporter, type ImportEntry } from "./services/archiveImporter";
+import { fileStore } from "./services/fileStore";
+import { pdfRetention } from "./services/pdfRetention";
+import { buildPdfSnapshot, questionVersion, restorePdfSnapshot } from "./services/pdfSnapshot";
+import { appEvents } from "./services/events";
+import type { AiReject } from "./services/aiResponse";
+import { trackAiUsage, type AiUsage } from "./services/aiProvider";
 import { 
   extractTopicsFromSyllabus, 
   categorizeQuestions, 
-  analyzeImageForDiagrams,
+  classifyQuestionSegments,
+  type ExtractedTopic,
+  type ExtractedQuestion,
   extractQuestionMetadata 
 } from "./services/openai";
-import { insertDocumentSchema, insertProcessingJobSchema } from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertDocumentSchema,
+  updateDocumentSchema, updateTopicSchema, updateQuestionSchema, updateGeneratedPdfSchema, questionSearchSchema, archiveImportSchema,
+  generatedPdfListSchema, deleteGeneratedPdfsSchema, regeneratePdfSchema,
+  insertWorksheetDraftSchema, updateWorksheetDraftSchema,
+  type Document, type Question, type MarkSchemeEntry, type ProcessingJob, type GeneratedPdfSnapshot
+} from "@shared/schema";
+
+// What happened to one document of a past paper or archive import job, so a retry can skip
+// finished ones and a finished batch shows which papers produced nothing
+interface DocumentOutcome {
+  documentId: string;
+  filename: string;
+  status: 'processing' | 'completed' | 'failed' | 'skipped';
+  questions: number;
+  rejected: number; // AI responses that failed validation
+  tokensUsed: number;
+  durationMs: number;
+  error?: string;
+}
+
+// What /api/upload does with a file whose contents match an existing document
+type DuplicateMode = 'skip' | 'link' | 'replace';
+
+interface DuplicateUpload {
+  filename: string;
+  existingDocumentId: string;
+  existingFilename: string;
+  action: 'skipped' | 'linked' | 'replaced';
+}
 
 // Configure multer for file uploads
 const upload = multer({
@@ -30,12 +75,61 @@ const upload = multer({
   }
 });
 
+// ZIP archives of past papers, unpacked server-side by the archive importer
+const archiveUpload = multer({
+  dest: 'uploads/',
+  limits: {
+    fileSize: 1024 * 1024 * 1024, // 1GB
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (['application/zip', 'application/x-zip-compressed'].includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.zip')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only ZIP archives are allowed'));
+    }
+  }
+});
+
+// Syllabuses are imported first so papers are categorized against their topics, and
+// question papers before mark schemes
+const IMPORT_ORDER: Record<string, number> = { syllabus: 0, pastpaper: 1, markingscheme: 2 };
+
+// An import entry as the preview shows it, without its location on the server
+function previewEntry({ filePath, ...entry }: ImportEntry) {
+  return entry;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Background jobs, run by the queue with retries and resumed after restarts
+  jobQueue.register('document_processing', async (job, signal) => {
+    const { documentId, filePath } = job.payload as { documentId: string; filePath: string };
+    const rejects = await processDocumentAsync(documentId, filePath, signal, job.id);
+    if (rejects.length > 0) return { rejects };
+  }, 'Failed to process document');
+  jobQueue.register('syllabus_analysis', async (job, signal) => {
+    const { subject } = job.payload as { subject: string };
+    return processSyllabusAsync(job.id, await loadJobDocuments(job), subject, signal);
+  }, 'Failed to process syllabus');
+  jobQueue.register('question_extraction', async (job, signal) => {
+    const { subject } = job.payload as { subject: string };
+    return processPastPapersAsync(job.id, await loadJobDocuments(job), subject, signal);
+  }, 'Failed to process past papers');
+  jobQueue.register('pdf_generation', async (job, signal) => {
+    const { topicId, config } = job.payload as { topicId: string; config: any };
+    return generatePdfAsync(job.id, topicId, config, signal);
+  }, 'PDF generation failed');
+  jobQueue.register('archive_import', async (job, signal) => {
+    const { importId } = job.payload as { importId: string };
+    return importArchiveAsync(job.id, importId, signal);
+  }, 'Archive import failed');
+
   // Upload documents endpoint
   app.post('/api/upload', upload.array('files'), async (req, res) => {
     try {
       const files = req.files as Express.Multer.File[];
       const { type, subject } = req.body;
+      const duplicateMode: DuplicateMode = req.body.duplicates || 'skip';
 
       if (!files || files.length === 0) {
         return res.status(400).json({ message: 'No files uploaded' });
@@ -50,29 +144,122 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Subject is required for past papers and marking schemes' });
       }
 
-      const uploadedDocuments = [];
+      if (!['skip', 'link', 'replace'].includes(duplicateMode)) {
+        return res.status(400).json({ message: 'Invalid duplicates option. Use skip, link or replace' });
+      }
+
+      const uploadedDocuments: Document[] = [];
+      const duplicates: DuplicateUpload[] = [];
+      const uploadedHashes = new Map<string, Document>();
 
       for (const file of files) {
-        const documentData = insertDocumentSchema.parse({
-          filename: file.originalname,
-          type,
-          subject,
-          metadata: {
-            fileSize: file.size,
-            uploadDate: new Date().toISOString(),
-            originalPath: file.path
-          },
-          processingStatus: 'pending'
+        const { document, created, duplicate } = await addUploadedFile(file, type, subject, duplicateMode, uploadedHashes);
+        if (duplicate) duplicates.push(duplicate);
+        if (document && !uploadedDocuments.some(doc => doc.id === document.id)) {
+          uploadedDocuments.push(document);
+        }
+
+        if (document && created) {
+          await jobQueue.enqueue('document_processing', { documentId: document.id, filePath: (document.metadata as any).originalPath }, {
+            documentIds: [document.id],
+            statusMessage: `Waiting to process ${file.originalname}...`
+          });
+        }
+      }
+
+      res.json({ documents: uploadedDocuments, duplicates });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Unpack a ZIP archive and classify each PDF in it, for the user to check before importing
+  app.post('/api/import/preview', archiveUpload.single('archive'), async (req, res) => {
+    const archive = req.file;
+    if (!archive) {
+      return res.status(400).json({ message: 'No archive uploaded' });
+    }
+
+    try {
+      const manifest = await archiveImporter.unpack(archive.path, archive.originalname);
+      console.log(`📦 Unpacked ${manifest.entries.length} PDFs from ${archive.originalname}`);
+      res.json({ importId: manifest.id, archiveName: manifest.archiveName, entries: manifest.entries.map(previewEntry) });
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      fs.unlink(archive.path, () => {});
+    }
+  });
+
+  // Import a previewed archive as one job, applying the choices made in the preview
+  app.post('/api/import/:importId/confirm', async (req, res) => {
+    try {
+      const parsed = archiveImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const manifest = await archiveImporter.load(req.params.importId);
+      if (!manifest) {
+        return res.status(404).json({ message: 'Import not found. Upload the archive again' });
+      }
+      if (manifest.jobId) {
+        return res.status(409).json({ message: 'This archive is already being imported', jobId: manifest.jobId });
+      }
+
+      for (const choice of parsed.data.entries) {
+        const entry = manifest.entries.find(candidate => candidate.name === choice.name);
+        if (!entry) continue;
+        entry.include = choice.include;
+        entry.type = choice.type ?? entry.type;
+        entry.subject = choice.subject ?? entry.subject;
+      }
+
+      // Extracting questions from an insert would fill the bank with its source material
+      const inserts = manifest.entries.filter(entry => entry.include && entry.kind === 'in');
+      if (inserts.length > 0) {
+        return res.status(400).json({
+          message: `Inserts cannot be imported: ${inserts.map(entry => entry.name).join(', ')}`
         });
+      }
 
-        const document = await storage.createDocument(documentData);
-        uploadedDocuments.push(document);
+      const incomplete = manifest.entries.filter(entry => entry.include && (!entry.type || !entry.subject));
+      if (incomplete.length > 0) {
+        return res.status(400).json({
+          message: `Choose a type and subject for ${incomplete.map(entry => entry.name).join(', ')}`
+        });
+      }
 
-        // Start background processing
-        processDocumentAsync(document.id, file.path);
+      const included = manifest.entries.filter(entry => entry.include);
+      if (included.length === 0) {
+        return res.status(400).json({ message: 'No files selected for import' });
       }
 
-      res.json({ documents: uploadedDocuments });
+      const job = await jobQueue.enqueue('archive_import', { importId: manifest.id }, {
+        statusMessage: `Waiting to import ${included.length} files from ${manifest.archiveName}...`
+      });
+      manifest.jobId = job.id;
+      await archiveImporter.save(manifest);
+
+      res.json({ jobId: job.id, message: `Importing ${included.length} files` });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Throw away a previewed archive without importing it
+  app.delete('/api/import/:importId', async (req, res) => {
+    try {
+      const manifest = await archiveImporter.load(req.params.importId);
+      if (!manifest) {
+        return res.status(404).json({ message: 'Import not found' });
+      }
+      if (manifest.jobId) {
+        return res.status(409).json({ message: 'This archive is already being imported' });
+      }
+
+      await archiveImporter.discard(manifest.id);
+      res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
     }
@@ -89,6 +276,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the other documents from the same sitting (question paper, marking scheme, insert, reports)
+  app.get('/api/documents/:id/related', async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+
+      if (!document.syllabusCode || !document.paperYear || !document.paperSeries) {
+        return res.json({ documents: [] });
+      }
+
+      const sitting = await storage.getDocumentsBySitting(document.syllabusCode, document.paperYear, document.paperSeries);
+      // Reports and grade thresholds cover every component; papers only pair with their own
+      const documents = sitting.filter(doc => doc.id !== document.id && (
+        doc.component === null || document.component === null ||
+        (doc.component === document.component && doc.variant === document.variant)
+      ));
+      res.json({ documents });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // View a document's original PDF
+  app.get('/api/documents/:id/file', async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+
+      const filePath = (document.metadata as any)?.originalPath;
+      if (!filePath || !fs.existsSync(filePath)) {
+        return res.status(404).json({ message: 'The original file for this document is no longer stored' });
+      }
+
+      res.setHeader('Content-Disposition', `inline; filename="${document.filename.replace(/"/g, '')}"`);
+      // The file can still go missing before it is read, e.g. when its last document is deleted
+      res.sendFile(path.resolve(filePath), { headers: { 'Content-Type': 'application/pdf' } }, (error) => {
+        if (!error) return;
+        if (res.headersSent) {
+          res.end();
+        } else {
+          const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+          res.status(missing ? 404 : 500).json({
+            message: missing ? 'The original file for this document is no longer stored' : error.message
+          });
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Correct a document's details, e.g. a paper whose file name didn't identify its sitting
+  app.patch('/api/documents/:id', async (req, res) => {
+    try {
+      const parsed = updateDocumentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const document = await storage.updateDocument(req.params.id, parsed.data);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      res.json({ document });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Delete a document with its questions and marking scheme entries, and its uploaded file
+  app.delete('/api/documents/:id', async (req, res) => {
+    try {
+      const document = await removeDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+
+      console.log(`🗑️ Deleted document ${document.filename}`);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // Get topics by subject
   app.get('/api/topics/:subject', async (req, res) => {
     try {
@@ -100,6 +375,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get a subject's topics as a tree of main topics and their subtopics
+  app.get('/api/topics/:subject/tree', async (req, res) => {
+    try {
+      const topics = await storage.getTopicTree(req.params.subject);
+      res.json({ topics });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Rename or renumber a topic
+  app.patch('/api/topics/:id', async (req, res) => {
+    try {
+      const parsed = updateTopicSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const topic = await storage.getTopic(req.params.id);
+      if (!topic) {
+        return res.status(404).json({ message: 'Topic not found' });
+      }
+
+      // Topics are keyed on their names within a subject
+      const mainTopic = parsed.data.mainTopic ?? topic.mainTopic;
+      const subtopic = parsed.data.subtopic !== undefined ? parsed.data.subtopic : topic.subtopic;
+      const clash = (await storage.getTopicsBySubject(topic.subject)).find(other =>
+        other.id !== topic.id && other.mainTopic === mainTopic && other.subtopic === (subtopic || null)
+      );
+      if (clash) {
+        return res.status(409).json({ message: 'A topic with this name already exists' });
+      }
+
+      const updatedTopic = await storage.updateTopic(topic.id, parsed.data);
+      res.json({ topic: updatedTopic });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Delete a topic and its subtopics; their questions stay under any other topics they're tagged with
+  app.delete('/api/topics/:id', async (req, res) => {
+    try {
+      const topic = await storage.deleteTopic(req.params.id);
+      if (!topic) {
+        return res.status(404).json({ message: 'Topic not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Search and filter the question bank, a page at a time
+  app.get('/api/questions', async (req, res) => {
+    try {
+      const parsed = questionSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      if (parsed.data.cursor && !decodeSearchCursor(parsed.data.cursor)) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+
+      const page = await storage.searchQuestions(parsed.data);
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // Get questions by topic
   app.get('/api/questions/topic/:topicId', async (req, res) => {
     try {
@@ -111,6 +457,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get every topic a question is tagged with, most confident first
+  app.get('/api/questions/:id/topics', async (req, res) => {
+    try {
+      const topics = await storage.getQuestionTopics(req.params.id);
+      res.json({ topics });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Fix a question the AI got wrong: its text, numbering, marks or topic
+  app.patch('/api/questions/:id', async (req, res) => {
+    try {
+      const parsed = updateQuestionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const { topicId } = parsed.data;
+      if (topicId && !(await storage.getTopic(topicId))) {
+        return res.status(400).json({ message: 'Topic not found' });
+      }
+
+      const question = await storage.updateQuestion(req.params.id, parsed.data);
+      if (!question) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+
+      // A topic chosen by hand is certain and leads the question's tags
+      if (topicId) {
+        const otherTags = (await storage.getQuestionTopics(question.id)).filter(tag => tag.topicId !== topicId);
+        await storage.setQuestionTopics(question.id, [
+          { topicId, confidence: 1 },
+          ...otherTags.map(tag => ({ topicId: tag.topicId, confidence: tag.confidence }))
+        ]);
+      }
+
+      res.json({ question });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Delete a question and its topic tags
+  app.delete('/api/questions/:id', async (req, res) => {
+    try {
+      const question = await storage.deleteQuestion(req.params.id);
+      if (!question) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // Process syllabus to extract topics
   app.post('/api/process-syllabus', async (req, res) => {
     try {
@@ -130,20 +532,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'No syllabus documents found for this subject' });
       }
 
-      // Create a processing job
-      const jobData = insertProcessingJobSchema.parse({
-        type: 'syllabus_analysis',
-        status: 'processing',
-        progress: 0,
-        statusMessage: 'Extracting topics from syllabus...',
-        documentIds: subjectSyllabus.map(doc => doc.id)
+      const job = await jobQueue.enqueue('syllabus_analysis', { subject }, {
+        documentIds: subjectSyllabus.map(doc => doc.id),
+        statusMessage: 'Waiting to extract topics from syllabus...'
       });
 
-      const job = await storage.createProcessingJob(jobData);
-
-      // Start background processing
-      processSyllabusAsync(job.id, subjectSyllabus, subject);
-
       res.json({ jobId: job.id, message: 'Syllabus processing started' });
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
@@ -175,20 +568,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No topics found. Please process syllabus first to extract topics.' });
       }
 
-      // Create a processing job
-      const jobData = insertProcessingJobSchema.parse({
-        type: 'question_extraction',
-        status: 'processing',
-        progress: 0,
-        statusMessage: 'Categorizing questions from past papers...',
-        documentIds: subjectPastPapers.map(doc => doc.id)
+      const job = await jobQueue.enqueue('question_extraction', { subject }, {
+        documentIds: subjectPastPapers.map(doc => doc.id),
+        statusMessage: 'Waiting to categorize questions from past papers...'
       });
-
-      const job = await storage.createProcessingJob(jobData);
-
-      // Start background processing
-      console.log(`🚀 Starting background processing for job ${job.id} with ${subjectPastPapers.length} documents`);
-      processPastPapersAsync(job.id, subjectPastPapers, subject);
+      console.log(`🚀 Queued job ${job.id} for ${subjectPastPapers.length} past paper documents`);
 
       res.json({ jobId: job.id, message: 'Past paper processing started' });
     } catch (error) {
@@ -216,29 +600,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'No valid questions found' });
       }
 
+      const answers = config?.includeAnswerSchemes ? await loadAnswerSchemes(questions) : undefined;
+
       // Generate PDF using selected questions
+      const pdfConfig = config || {
+        includeQuestionText: true,
+        includeVectorDiagrams: true,
+        includeAnswerSchemes: false,
+        includeSourceInfo: true,
+        layout: 'standard'
+      };
       const pdfResult = await pdfGenerator.generatePdf(
         questions,
-        config || {
-          includeQuestionText: true,
-          includeVectorDiagrams: true,
-          includeAnswerSchemes: false,
-          includeSourceInfo: true,
-          layout: 'standard'
-        },
+        pdfConfig,
         `Custom PDF - ${questions.length} Questions`,
-        `Selected questions from multiple topics`
+        `Selected questions from multiple topics`,
+        answers
       );
 
       // Save PDF metadata
+      const sourceDocument = questions[0].documentId
+        ? await storage.getDocument(questions[0].documentId)
+        : undefined;
       const pdfMetadata = await storage.createGeneratedPdf({
         filename: pdfResult.filename,
         filePath: pdfResult.filePath,
         fileSize: pdfResult.fileSize,
-        questionCount: questions.length,
-        topic: 'Custom Selection',
+        questionCount: pdfResult.questionCount,
+        diagramCount: pdfResult.diagramCount,
+        subject: sourceDocument?.subject || 'general',
+        mainTopic: 'Custom Selection',
         subtopic: null,
-        config: config || {}
+        configuration: pdfConfig,
+        snapshot: buildPdfSnapshot(pdfResult, questions, answers)
       });
 
       res.json({ 
@@ -274,18 +668,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No questions found for this topic' });
       }
 
-      // Create processing job
-      const job = await storage.createProcessingJob({
-        type: 'pdf_generation',
-        status: 'processing',
-        progress: 0,
-        statusMessage: 'Starting PDF generation...',
-        documentIds: [topicId]
+      const job = await jobQueue.enqueue('pdf_generation', { topicId, config }, {
+        documentIds: [topicId],
+        statusMessage: 'Waiting to generate PDF...'
       });
 
-      // Generate PDF in background
-      generatePdfAsync(job.id, topic, questions, config);
-
       res.json({ jobId: job.id, message: 'PDF generation started' });
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
@@ -308,6 +695,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stop a queued or running job; a running job stops at its next step
+  app.post('/api/processing-job/:jobId/cancel', async (req, res) => {
+    try {
+      const job = await storage.getProcessingJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (job.status !== 'pending' && job.status !== 'processing') {
+        return res.status(409).json({ message: 'Job has already finished' });
+      }
+
+      await jobQueue.cancel(job.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Run a failed or cancelled job again as a new job. Past paper and archive import jobs
+  // only redo the documents that failed or were never reached.
+  app.post('/api/processing-job/:jobId/retry', async (req, res) => {
+    try {
+      const job = await storage.getProcessingJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (job.status === 'pending' || job.status === 'processing') {
+        return res.status(409).json({ message: 'Job is still running' });
+      }
+      if (!job.payload) {
+        return res.status(400).json({ message: 'This job did not record its input and cannot be retried' });
+      }
+
+      let documentIds = (job.documentIds as string[]) || [];
+      if (job.type === 'archive_import') {
+        const manifest = await archiveImporter.load((job.payload as { importId: string }).importId);
+        if (manifest?.jobId && manifest.jobId !== job.id) {
+          return res.status(409).json({ message: 'This import has been retried already; retry its latest job instead', jobId: manifest.jobId });
+        }
+        const failed = manifest?.entries.filter(entry => entry.include && entry.status !== 'completed' && entry.status !== 'skipped') || [];
+        if (failed.length === 0) {
+          return res.status(409).json({ message: 'Every file in this archive was imported, or the archive is no longer unpacked. Upload it again to import it anew' });
+        }
+
+        const retryJob = await jobQueue.enqueue('archive_import', { ...(job.payload as object), retryOf: job.id }, {
+          statusMessage: `Waiting to retry ${failed.length} files from ${manifest!.archiveName}...`
+        });
+        manifest!.jobId = retryJob.id;
+        await archiveImporter.save(manifest!);
+        return res.json({ jobId: retryJob.id, message: `Retrying ${failed.length} file(s)` });
+      }
+      if (job.type === 'question_extraction') {
+        const outcomes: DocumentOutcome[] = (job.result as any)?.documents || [];
+        const finished = new Set(outcomes
+          .filter(outcome => outcome.status === 'completed' || outcome.status === 'skipped')
+          .map(outcome => outcome.documentId));
+        documentIds = documentIds.filter(id => !finished.has(id));
+        if (documentIds.length === 0) {
+          return res.status(400).json({ message: 'Every document in this job was processed' });
+        }
+      } else if (job.status === 'completed') {
+        return res.status(400).json({ message: 'Job completed successfully' });
+      }
+
+      const retryJob = await jobQueue.enqueue(job.type as JobType, { ...(job.payload as object), retryOf: job.id }, {
+        documentIds,
+        statusMessage: 'Waiting to retry...'
+      });
+      res.json({ jobId: retryJob.id, message: `Retrying ${documentIds.length} document(s)` });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Get a job's event log, oldest first
+  app.get('/api/processing-job/:jobId/events', async (req, res) => {
+    try {
+      const job = await storage.getProcessingJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const events = await storage.getProcessingJobEvents(job.id);
+      res.json({ events });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // Get active processing jobs
   app.get('/api/processing-jobs', async (req, res) => {
     try {
@@ -318,11 +794,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get recent generated PDFs
+  // Server-Sent Events stream of job progress, document status and newly saved topics and questions
+  app.get('/api/events', (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write('retry: 3000\n\n');
+
+    const unsubscribe = appEvents.subscribe(event => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    // Proxies close connections that stay silent for too long
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  });
+
+  // Get recent jobs of every status, newest first
+  app.get('/api/processing-jobs/history', async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const jobs = await storage.getRecentProcessingJobs(limit, {
+        type: req.query.type as string | undefined,
+        status: req.query.status as string | undefined
+      });
+      res.json({ jobs });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // List generated PDFs, newest first, a page at a time
   app.get('/api/generated-pdfs', async (req, res) => {
     try {
-      const pdfs = await storage.getRecentGeneratedPdfs(10);
-      res.json({ pdfs });
+      const parsed = generatedPdfListSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      if (parsed.data.cursor && !decodeSearchCursor(parsed.data.cursor)) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+
+      const page = await storage.listGeneratedPdfs(parsed.data);
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Rename a generated PDF's download file name, or pin it so the retention sweep keeps it
+  app.patch('/api/generated-pdfs/:id', async (req, res) => {
+    try {
+      const parsed = updateGeneratedPdfSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const pdf = await storage.updateGeneratedPdf(req.params.id, parsed.data);
+      if (!pdf) {
+        return res.status(404).json({ message: 'PDF not found' });
+      }
+      res.json({ pdf });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Delete a generated PDF and its file in generated_pdfs/
+  app.delete('/api/generated-pdfs/:id', async (req, res) => {
+    try {
+      if (!await removeGeneratedPdf(req.params.id)) {
+        return res.status(404).json({ message: 'PDF not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Delete several generated PDFs at once; ids that no longer exist are reported, not an error
+  app.delete('/api/generated-pdfs', async (req, res) => {
+    try {
+      const parsed = deleteGeneratedPdfsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const deleted: string[] = [];
+      const notFound: string[] = [];
+      for (const id of parsed.data.ids) {
+        (await removeGeneratedPdf(id) ? deleted : notFound).push(id);
+      }
+      res.json({ deleted, notFound });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Build a new copy of a generated PDF with the same settings and questions, either exactly
+  // as recorded in its snapshot or with the questions' current content
+  app.post('/api/generated-pdfs/:id/regenerate', async (req, res) => {
+    try {
+      const parsed = regeneratePdfSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const original = await storage.getGeneratedPdf(req.params.id);
+      if (!original) {
+        return res.status(404).json({ message: 'PDF not found' });
+      }
+      const snapshot = original.snapshot as GeneratedPdfSnapshot | null;
+      if (!snapshot) {
+        return res.status(409).json({ message: 'This PDF was generated before question lists were recorded, so it cannot be regenerated' });
+      }
+
+      const config = original.configuration as any;
+      let questions: Question[];
+      let answers: AnswerSchemeMap | undefined;
+      const changed: string[] = [];
+      const missing: string[] = [];
+
+      if (parsed.data.mode === 'exact') {
+        ({ questions, answers } = restorePdfSnapshot(snapshot));
+      } else {
+        questions = [];
+        for (const entry of snapshot.questions) {
+          const question = await storage.getQuestion(entry.id);
+          if (!question) {
+            missing.push(entry.id);
+            continue;
+          }
+          if (questionVersion(question) !== entry.version) changed.push(entry.id);
+          questions.push(question);
+        }
+        if (questions.length === 0) {
+          return res.status(409).json({ message: 'None of the questions in this PDF are in the question bank any more' });
+        }
+        answers = config?.includeAnswerSchemes ? await loadAnswerSchemes(questions) : undefined;
+      }
+
+      const result = await pdfGenerator.generatePdf(questions, config, snapshot.title, snapshot.subtitle, answers);
+      const pdf = await storage.createGeneratedPdf({
+        filename: result.filename,
+        filePath: result.filePath,
+        fileSize: result.fileSize,
+        questionCount: result.questionCount,
+        diagramCount: result.diagramCount,
+        topicId: original.topicId,
+        subject: original.subject,
+        mainTopic: original.mainTopic,
+        subtopic: original.subtopic,
+        configuration: config,
+        snapshot: buildPdfSnapshot(result, questions, answers)
+      });
+
+      console.log(`🔁 Regenerated ${original.filename} (${parsed.data.mode}): ${changed.length} changed, ${missing.length} missing`);
+      res.json({
+        pdf,
+        downloadUrl: `/api/download-pdf/${pdf.id}`,
+        mode: parsed.data.mode,
+        changed,
+        missing
+      });
+    } catch (error) {
+      console.error('Error regenerating PDF:', error);
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Apply the retention policy now rather than waiting for the next scheduled sweep
+  app.post('/api/generated-pdfs/cleanup', async (req, res) => {
+    try {
+      const result = await pdfRetention.sweep();
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Worksheet drafts of the PDF builder, most recently changed first
+  app.get('/api/worksheet-drafts', async (req, res) => {
+    try {
+      const drafts = await storage.getWorksheetDrafts();
+      res.json({ drafts });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post('/api/worksheet-drafts', async (req, res) => {
+    try {
+      const parsed = insertWorksheetDraftSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const draft = await storage.createWorksheetDraft({
+        ...parsed.data,
+        questionIds: Array.from(new Set(parsed.data.questionIds))
+      });
+      res.json({ draft });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // A draft with its questions in worksheet order; questions deleted since it was saved are listed as missing
+  app.get('/api/worksheet-drafts/:id', async (req, res) => {
+    try {
+      const draft = await storage.getWorksheetDraft(req.params.id);
+      if (!draft) {
+        return res.status(404).json({ message: 'Draft not found' });
+      }
+
+      const questions: Question[] = [];
+      const missing: string[] = [];
+      for (const id of draft.questionIds as string[]) {
+        const question = await storage.getQuestion(id);
+        if (question) {
+          questions.push(question);
+        } else {
+          missing.push(id);
+        }
+      }
+      res.json({ draft, questions, missing });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Rename a draft or save its questions; questionIds replaces the whole ordered list
+  app.patch('/api/worksheet-drafts/:id', async (req, res) => {
+    try {
+      const parsed = updateWorksheetDraftSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const updates = parsed.data.questionIds
+        ? { ...parsed.data, questionIds: Array.from(new Set(parsed.data.questionIds)) }
+        : parsed.data;
+      const draft = await storage.updateWorksheetDraft(req.params.id, updates);
+      if (!draft) {
+        return res.status(404).json({ message: 'Draft not found' });
+      }
+      res.json({ draft });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.delete('/api/worksheet-drafts/:id', async (req, res) => {
+    try {
+      if (!await storage.deleteWorksheetDraft(req.params.id)) {
+        return res.status(404).json({ message: 'Draft not found' });
+      }
+      res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : 'Unknown error' });
     }
@@ -348,13 +1081,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Deletes a generated PDF's record and its file; false when there is no such PDF
+  async function removeGeneratedPdf(id: string): Promise<boolean> {
+    const pdf = await storage.deleteGeneratedPdf(id);
+    if (!pdf) return false;
+
+    await pdfGenerator.deletePdf(pdf.filePath);
+    console.log(`🗑️ Deleted generated PDF ${pdf.filename}`);
+    return true;
+  }
+
+  // Creates the document for an uploaded file unless its contents match an existing document,
+  // in which case duplicateMode decides between skipping, reusing or replacing that document
+  async function addUploadedFile(
+    file: { path: string; originalname: string; size: number },
+    type: string,
+    subject: string | undefined,
+    duplicateMode: DuplicateMode,
+    uploadedHashes: Map<string, Document>
+  ): Promise<{ document: Document | null; created: boolean; duplicate?: DuplicateUpload }> {
+    const sha256 = await fileStore.hash(file.path);
+    // A file repeated within one upload is never replaced by its own copy
+    const existing = uploadedHashes.get(sha256) || await storage.getDocumentByHash(sha256);
+
+    if (existing && (duplicateMode !== 'replace' || uploadedHashes.has(sha256))) {
+      await fs.promises.unlink(file.path).catch(() => {});
+      const action = duplicateMode === 'link' ? 'linked' : 'skipped';
+      console.log(`🔁 ${file.originalname} duplicates ${existing.filename}, ${action}`);
+      return {
+        document: action === 'linked' ? existing : null,
+        created: false,
+        duplicate: { filename: file.originalname, existingDocumentId: existing.id, existingFilename: existing.filename, action }
+      };
+    }
+
+    let duplicate: DuplicateUpload | undefined;
+    if (existing) {
+      await removeDocument(existing.id);
+      duplicate = { filename: file.originalname, existingDocumentId: existing.id, existingFilename: existing.filename, action: 'replaced' };
+      console.log(`🔁 ${file.originalname} replaces ${existing.filename}`);
+    }
+
+    const stored = await fileStore.put(file.path, sha256);
+    const identity = paperIdentityParser.parse(file.originalname);
+    const documentData = insertDocumentSchema.parse({
+      filename: file.originalname,
+      type,
+      subject,
+      metadata: {
+        fileSize: file.size,
+        uploadDate: new Date().toISOString(),
+        originalPath: stored.path,
+        sha256
+      },
+      syllabusCode: identity?.syllabusCode,
+      paperYear: identity?.year,
+      paperSeries: identity?.series,
+      component: identity?.component,
+      variant: identity?.variant,
+      paperKind: identity?.kind,
+      processingStatus: 'pending'
+    });
+
+    const document = await storage.createDocument(documentData);
+    uploadedHashes.set(sha256, document);
+    return { document, created: true, duplicate };
+  }
+
+  // Deletes a document with its questions and marking scheme entries. Its source file is
+  // removed from the file store once no remaining document refers to it.
+  async function removeDocument(id: string): Promise<Document | undefined> {
+    const document = await storage.deleteDocument(id);
+    const { sha256, originalPath } = (document?.metadata || {}) as any;
+
+    if (sha256 && originalPath && fileStore.contains(originalPath)) {
+      if (!await storage.getDocumentByHash(sha256)) {
+        await fileStore.remove(sha256);
+      }
+    } else if (originalPath) {
+      // Uploads from before the file store were left where multer put them
+      await fs.promises.unlink(originalPath).catch(() => {
+        // The upload may already have been cleaned up
+      });
+    }
+    return document;
+  }
+
   // Background processing functions
-  async function processDocumentAsync(documentId: string, filePath: string) {
+
+  // Returns the AI responses that failed validation; with a jobId they are also logged to that job
+  async function processDocumentAsync(documentId: string, filePath: string, signal?: AbortSignal, jobId?: string): Promise<AiReject[]> {
     try {
       await storage.updateDocumentStatus(documentId, 'processing');
 
       const document = await storage.getDocument(documentId);
-      if (!document) return;
+      if (!document) return [];
 
       // Extract content from PDF
       console.log(`🔍 Starting PDF extraction for: ${document?.filename}`);
@@ -362,398 +1183,662 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`✅ PDF extraction completed. Text length: ${pdfContent.text.length}`);
       console.log(`📝 Preview: ${pdfContent.text.substring(0, 100)}...`);
       await storage.updateDocumentContent(documentId, pdfContent.text);
+      signal?.throwIfAborted();
       
       // Update document object with extracted text for immediate use
       if (document) {
         (document as any).extractedText = pdfContent.text;
       }
 
+      // Record which pages were read by OCR and, for past papers, where each question sits
+      // on the page so it can be cropped from the original later
+      const ocrPages = pdfContent.metadata.ocrPages || [];
+      if (ocrPages.length > 0 || document.type === 'pastpaper') {
+        document.metadata = {
+          ...(document.metadata as any),
+          ...(ocrPages.length > 0 ? { ocrPages } : {}),
+          ...(document.type === 'pastpaper' ? { questionRegions: pdfContent.questionRegions } : {})
+        };
+        await storage.updateDocumentMetadata(documentId, document.metadata);
+      }
+
+      // AI responses that could not be repaired are kept on the document for review
+      const aiRejects: AiReject[] = [];
+      const onReject = (reject: AiReject) => { aiRejects.push(reject); };
+
       if (document.type === 'syllabus') {
         // Extract topics from syllabus using AI
         console.log(`🤖 AI analyzing syllabus for ${document.subject || 'general'} topics...`);
-        const extractedTopics = await extractTopicsFromSyllabus(
+        const extractedTopics = await extractSyllabusTopics(
           pdfContent.text, 
-          document.subject || 'general'
+          document.subject || 'general',
+          onReject
         );
 
         console.log(`✅ AI extracted ${extractedTopics.length} main topics from syllabus`);
 
         // Save topics to storage
-        for (const topic of extractedTopics) {
-          // Create main topic
-          await storage.createTopic({
-            documentId,
-            subject: document.subject || 'general',
-            mainTopic: topic.mainTopic,
-            subtopic: null,
-            description: topic.description
-          });
+        const { topicCount, subtopicCount } = await saveTopicTree(documentId, document.subject || 'general', extractedTopics);
 
-          // Create subtopics
-          for (const subtopic of topic.subtopics) {
-            await storage.createTopic({
-              documentId,
-              subject: document.subject || 'general',
-              mainTopic: topic.mainTopic,
-              subtopic,
-              description: `Subtopic covering ${subtopic}`
-            });
-          }
-        }
-
-        console.log(`📝 Stored ${extractedTopics.length} main topics with ${extractedTopics.reduce((sum, t) => sum + t.subtopics.length, 0)} total subtopics`);
+        console.log(`📝 Stored ${topicCount} main topics with ${subtopicCount} total subtopics`);
       } else if (document.type === 'pastpaper') {
         // Get available topics for categorization
-        const availableTopics = await storage.getTopicsBySubject(document.subject || 'general');
-        const topicsForAI = availableTopics.map(t => ({
-          mainTopic: t.mainTopic,
-          subtopics: availableTopics
-            .filter(st => st.mainTopic === t.mainTopic && st.subtopic)
-            .map(st => st.subtopic!)
-            .filter(Boolean),
-          description: t.description || ''
-        }));
+        const { topicsForAI, resolveTopics } = await loadTopicsForCategorization(document.subject || 'general');
 
         // Categorize questions
-        const extractedQuestions = await categorizeQuestions(
+        const extractedQuestions = await extractQuestions(
           pdfContent.text,
           topicsForAI,
-          document.subject || 'general'
+          document.subject || 'general',
+          onReject
         );
 
         // Save questions to storage
         for (const question of extractedQuestions) {
-          const matchingTopic = availableTopics.find(t => 
-            t.mainTopic === question.topicMatch && 
-            (!question.subtopicMatch || t.subtopic === question.subtopicMatch)
-          );
+          const topicTags = await resolveTopics(question);
 
-          if (matchingTopic) {
-            const metadata = await extractQuestionMetadata(question.questionText);
-
-            await storage.createQuestion({
-              documentId,
-              topicId: matchingTopic.id,
-              questionText: question.questionText,
-              questionNumber: question.questionNumber,
-              paperYear: metadata.paperYear,
-              paperSession: metadata.paperSession,
-              hasVectorDiagram: question.hasVectorDiagram,
-              difficulty: question.difficulty,
-              marks: question.marks
-            });
-          }
+          // Papers with a Cambridge file name already identify their sitting
+          const metadata = document.paperYear
+            ? { paperYear: String(document.paperYear), paperSession: document.paperSeries || undefined }
+            : await extractQuestionMetadata(question.questionText, onReject);
+
+          const savedQuestion = await storage.upsertQuestion({
+            documentId,
+            topicId: topicTags[0].topicId,
+            questionText: question.questionText,
+            questionNumber: question.questionNumber,
+            paperYear: metadata.paperYear,
+            paperSession: metadata.paperSession,
+            hasVectorDiagram: question.hasVectorDiagram,
+            diagramData: buildQuestionSourceData(document, question.questionNumber),
+            difficulty: question.difficulty,
+            marks: question.marks
+          });
+          await storage.setQuestionTopics(savedQuestion.id, topicTags);
+        }
+      } else if (document.type === 'markingscheme') {
+        const paperCode = documentPaperCode(document);
+        if (!paperCode) {
+          console.warn(`⚠️ Could not read a paper code from ${document.filename}; its answers cannot be paired with questions`);
         }
 
-        // Process images for vector diagrams
-        for (const image of pdfContent.images) {
-          try {
-            // Convert SVG to PNG format for OpenAI compatibility
-            const pngImageData = await convertSvgToPng(image.imageData);
-            const diagramAnalysis = await analyzeImageForDiagrams(pngImageData);
-            if (diagramAnalysis.hasVectorDiagram) {
-              // Find questions on the same page and update them with diagram data
-              const questionsOnPage = await storage.getQuestionsByDocument(documentId);
-              // In a real implementation, you would match images to specific questions
-              // based on page layout analysis
-            }
-          } catch (error) {
-            console.warn(`Failed to analyze image: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            // Continue processing other images
-          }
+        // Replace entries from any earlier run of this document
+        await storage.deleteMarkSchemeEntriesByDocument(documentId);
+
+        const entries = markSchemeProcessor.parseEntries(pdfContent.text);
+        for (const entry of entries) {
+          await storage.createMarkSchemeEntry({
+            documentId,
+            paperCode,
+            questionNumber: entry.questionNumber,
+            answerText: entry.answerText,
+            marks: entry.marks
+          });
+        }
+
+        console.log(`📝 Stored ${entries.length} marking scheme entries for paper ${paperCode || 'unknown'}`);
+      }
+
+      if (aiRejects.length > 0) {
+        console.warn(`⚠️ ${aiRejects.length} AI responses for ${document.filename} failed validation`);
+        document.metadata = { ...(document.metadata as any), aiRejects };
+        await storage.updateDocumentMetadata(documentId, document.metadata);
+        if (jobId) {
+          await jobQueue.log(jobId, 'warning', `${aiRejects.length} AI responses for ${document.filename} failed validation`, {
+            documentId,
+            data: { rejects: aiRejects.map(reject => ({ task: reject.task, errors: reject.errors })) }
+          });
         }
       }
 
       await storage.updateDocumentStatus(documentId, 'completed');
-      
-      // Clean up uploaded file
-      fs.unlink(filePath, () => {});
+      return aiRejects;
     } catch (error) {
-      await storage.updateDocumentStatus(documentId, 'error');
+      await storage.updateDocumentStatus(documentId, signal?.aborted ? 'pending' : 'error');
       console.error('Document processing error:', error);
+      throw error;
     }
   }
 
-  async function processSyllabusAsync(jobId: string, syllabusDocuments: any[], subject: string) {
-    try {
-      await storage.updateProcessingJob(jobId, {
-        status: 'processing',
-        progress: 10,
-        statusMessage: 'Reading syllabus documents...'
-      });
+  // A job's documents as they are now, skipping any deleted since it was queued
+  async function loadJobDocuments(job: ProcessingJob): Promise<Document[]> {
+    const documents = await Promise.all(((job.documentIds as string[]) || []).map(id => storage.getDocument(id)));
+    return documents.filter((document): document is Document => Boolean(document));
+  }
 
-      // Combine content from all syllabus documents
-      let combinedContent = '';
-      for (const doc of syllabusDocuments) {
-        if (doc.content) {
-          combinedContent += doc.content + '\n\n';
-        } else {
-          // Extract content if not already processed
-          const pdfContent = await pdfProcessor.extractContent(doc.metadata?.originalPath || '');
-          combinedContent += pdfContent.text + '\n\n';
-          await storage.updateDocumentContent(doc.id, pdfContent.text);
-        }
+  async function processSyllabusAsync(jobId: string, syllabusDocuments: any[], subject: string, signal?: AbortSignal): Promise<Partial<ProcessingJob>> {
+    if (syllabusDocuments.length === 0) {
+      throw new Error('The syllabus documents for this job have been deleted');
+    }
+
+    await storage.updateProcessingJob(jobId, {
+      progress: 10,
+      statusMessage: 'Reading syllabus documents...'
+    });
+
+    // Combine content from all syllabus documents
+    let combinedContent = '';
+    for (const doc of syllabusDocuments) {
+      if (doc.content) {
+        combinedContent += doc.content + '\n\n';
+      } else {
+        // Extract content if not already processed
+        const pdfContent = await pdfProcessor.extractContent(doc.metadata?.originalPath || '');
+        combinedContent += pdfContent.text + '\n\n';
+        await storage.updateDocumentContent(doc.id, pdfContent.text);
       }
+    }
 
-      await storage.updateProcessingJob(jobId, {
-        progress: 30,
-        statusMessage: 'Analyzing syllabus content with AI...'
-      });
+    // Extract topics using AI, one syllabus section chunk at a time (progress 30-60%)
+    const rejects: AiReject[] = [];
+    const extractedTopics = await extractSyllabusTopics(
+      combinedContent,
+      subject,
+      reject => { rejects.push(reject); },
+      async (chunk, chunkCount) => {
+        signal?.throwIfAborted();
+        await storage.updateProcessingJob(jobId, {
+          progress: 30 + Math.floor((chunk.index / chunkCount) * 30),
+          statusMessage: `Analyzing syllabus section ${chunk.index + 1}/${chunkCount}${chunk.sections.length > 0 ? ` (${chunk.sections[0]})` : ''} with AI...`
+        });
+      }
+    );
 
-      // Extract topics using AI
-      const extractedTopics = await extractTopicsFromSyllabus(combinedContent, subject);
+    await storage.updateProcessingJob(jobId, {
+      progress: 60,
+      statusMessage: 'Saving topics and subtopics...'
+    });
 
-      await storage.updateProcessingJob(jobId, {
-        progress: 60,
-        statusMessage: 'Saving topics and subtopics...'
-      });
+    // Save topics to storage, associated with the first document
+    const { topicCount, subtopicCount } = await saveTopicTree(syllabusDocuments[0].id, subject, extractedTopics);
+
+    return {
+      statusMessage: `Successfully extracted ${topicCount} topics and ${subtopicCount} subtopics`,
+      result: { topicCount, subtopicCount, topics: extractedTopics },
+      rejects
+    };
+  }
+
+  async function generatePdfAsync(jobId: string, topicId: string, config: any, signal?: AbortSignal): Promise<Partial<ProcessingJob>> {
+    const topic = await storage.getTopic(topicId);
+    if (!topic) {
+      throw new Error('The topic for this PDF has been deleted');
+    }
 
-      // Save topics to storage
-      let topicCount = 0;
-      let subtopicCount = 0;
+    await storage.updateProcessingJob(jobId, {
+      progress: 25,
+      statusMessage: 'Organizing questions...'
+    });
+
+    const questions = await storage.getQuestionsByTopic(topicId);
+
+    await storage.updateProcessingJob(jobId, {
+      progress: 50,
+      statusMessage: 'Extracting diagrams...'
+    });
+
+    const answers = config?.includeAnswerSchemes ? await loadAnswerSchemes(questions) : undefined;
+    signal?.throwIfAborted();
+    const result = await pdfGenerator.generateTopicPdf(topic, questions, config, answers);
+
+    await storage.updateProcessingJob(jobId, {
+      progress: 75,
+      statusMessage: 'Finalizing PDF...'
+    });
+
+    // Save generated PDF record
+    const generatedPdf = await storage.createGeneratedPdf({
+      filename: result.filename,
+      topicId: topic.id,
+      subject: topic.subject,
+      mainTopic: topic.mainTopic,
+      subtopic: topic.subtopic,
+      questionCount: result.questionCount,
+      diagramCount: result.diagramCount,
+      fileSize: result.fileSize,
+      filePath: result.filePath,
+      configuration: config,
+      snapshot: buildPdfSnapshot(result, questions, answers)
+    });
+
+    return {
+      statusMessage: 'PDF generated successfully',
+      result: { pdfId: generatedPdf.id, ...result }
+    };
+  }
+
+  // Where a question sits in its source paper, so the generator can embed the original region
+  function buildQuestionSourceData(document: Document, questionNumber?: string): QuestionSourceData | null {
+    const metadata = (document.metadata || {}) as any;
+    const regions = pdfProcessor.regionsForQuestion(metadata.questionRegions || [], questionNumber);
+    if (!metadata.originalPath || regions.length === 0) return null;
+    return { sourcePath: metadata.originalPath, regions };
+  }
+
+  // Saves extracted topics as a tree: main topics at the root with their subtopics beneath,
+  // both numbered and ordered as in the syllabus
+  async function saveTopicTree(documentId: string, subject: string, extractedTopics: ExtractedTopic[]) {
+    let topicCount = 0;
+    let subtopicCount = 0;
+
+    for (const [topicIndex, topic] of Array.from(extractedTopics.entries())) {
+      const mainTopicRecord = await storage.upsertTopic({
+        documentId,
+        subject,
+        mainTopic: topic.mainTopic,
+        subtopic: null,
+        code: topic.code || null,
+        sortOrder: topicIndex,
+        description: topic.description
+      });
+      topicCount++;
 
-      for (const topic of extractedTopics) {
-        // Create main topic entry
-        const mainTopicRecord = await storage.createTopic({
-          documentId: syllabusDocuments[0].id, // Associate with first document
+      for (const [subtopicIndex, subtopic] of Array.from(topic.subtopics.entries())) {
+        await storage.upsertTopic({
+          documentId,
           subject,
           mainTopic: topic.mainTopic,
+          subtopic: subtopic.name,
+          parentId: mainTopicRecord.id,
+          code: subtopic.code || null,
+          sortOrder: subtopicIndex,
+          learningObjectives: subtopic.learningObjectives,
+          description: `Subtopic: ${subtopic.name}`
+        });
+        subtopicCount++;
+      }
+    }
+
+    return { topicCount, subtopicCount };
+  }
+
+  // The subject's topic tree as the AI categorizer reads it, and a lookup from the AI's
+  // topic names to topic tags. Questions matching no topic land in the Unclassified topic.
+  async function loadTopicsForCategorization(subject: string) {
+    const tree = (await storage.getTopicTree(subject)).filter(node => node.mainTopic !== UNCLASSIFIED_TOPIC);
+    const topicsForAI: ExtractedTopic[] = tree.map(node => ({
+      mainTopic: node.mainTopic,
+      code: node.code || undefined,
+      subtopics: node.children
+        .filter(child => child.subtopic)
+        .map(child => ({
+          name: child.subtopic!,
+          code: child.code || undefined,
+          learningObjectives: (child.learningObjectives as string[] | null) || []
+        })),
+      description: node.description || ''
+    }));
+
+    let unclassifiedTopicId: string | null = null;
+    const resolveTopics = async (question: ExtractedQuestion): Promise<TopicTag[]> => {
+      const tags = question.topicMatch === UNCLASSIFIED_TOPIC ? [] : topicMatcher.resolve(tree, [question, ...question.additionalTopics]);
+      if (tags.length > 0) return tags;
+
+      console.warn(`❓ No topic matches "${question.topicMatch}${question.subtopicMatch ? ` / ${question.subtopicMatch}` : ''}", filing question ${question.questionNumber} as unclassified`);
+      if (!unclassifiedTopicId) {
+        const unclassified = await storage.upsertTopic({
+          subject,
+          mainTopic: UNCLASSIFIED_TOPIC,
           subtopic: null,
-          description: topic.description
+          sortOrder: UNCLASSIFIED_SORT_ORDER,
+          description: 'Questions that could not be matched to a syllabus topic'
         });
-        topicCount++;
-
-        // Create subtopic entries
-        for (const subtopic of topic.subtopics) {
-          await storage.createTopic({
-            documentId: syllabusDocuments[0].id,
-            subject,
-            mainTopic: topic.mainTopic,
-            subtopic,
-            description: `Subtopic: ${subtopic}`
-          });
-          subtopicCount++;
-        }
+        unclassifiedTopicId = unclassified.id;
       }
+      return [{ topicId: unclassifiedTopicId, confidence: 0 }];
+    };
 
-      await storage.updateProcessingJob(jobId, {
-        status: 'completed',
-        progress: 100,
-        statusMessage: `Successfully extracted ${topicCount} topics and ${subtopicCount} subtopics`,
-        result: { topicCount, subtopicCount, topics: extractedTopics }
-      });
+    return { topicsForAI, resolveTopics };
+  }
 
-    } catch (error) {
-      await storage.updateProcessingJob(jobId, {
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        statusMessage: 'Failed to process syllabus'
-      });
+  // Long syllabuses overflow a single request, so topics are extracted per section chunk and merged
+  async function extractSyllabusTopics(
+    text: string,
+    subject: string,
+    onReject?: (reject: AiReject) => void,
+    onChunk?: (chunk: SyllabusChunk, chunkCount: number) => Promise<void>
+  ): Promise<ExtractedTopic[]> {
+    const chunks = syllabusChunker.split(text);
+    const topicLists: ExtractedTopic[][] = [];
+
+    for (const chunk of chunks) {
+      await onChunk?.(chunk, chunks.length);
+      console.log(`🤖 AI analyzing syllabus chunk ${chunk.index + 1}/${chunks.length} (${chunk.text.length} chars)`);
+      topicLists.push(await extractTopicsFromSyllabus(chunk.text, subject, onReject));
     }
+
+    const topics = syllabusChunker.merge(topicLists);
+    console.log(`🔗 Merged ${topicLists.reduce((sum, list) => sum + list.length, 0)} chunk topics into ${topics.length} main topics`);
+    return topics;
   }
 
-  async function generatePdfAsync(jobId: string, topic: any, questions: any[], config: any) {
-    try {
-      await storage.updateProcessingJob(jobId, {
-        status: 'processing',
-        progress: 25,
-        statusMessage: 'Organizing questions...'
-      });
+  // Splits the paper into questions by its numbering so the AI only classifies each one.
+  // Papers the segmenter cannot read fall back to letting the AI find the questions.
+  async function extractQuestions(text: string, topicsForAI: ExtractedTopic[], subject: string, onReject?: (reject: AiReject) => void) {
+    const segments = questionSegmenter.segment(text);
+    if (segments.length === 0) {
+      console.log(`⚠️ No numbered questions found, asking AI to extract questions from the full text`);
+      return categorizeQuestions(text, topicsForAI, subject, onReject);
+    }
 
-      await storage.updateProcessingJob(jobId, {
-        progress: 50,
-        statusMessage: 'Extracting diagrams...'
-      });
+    return classifyQuestionSegments(segments, topicsForAI, subject, onReject);
+  }
 
-      const result = await pdfGenerator.generateTopicPdf(topic, questions, config);
+  // Pair each question with marking scheme entries from the same paper (by paper code and question number)
+  async function loadAnswerSchemes(questions: Question[]): Promise<AnswerSchemeMap> {
+    const answers: AnswerSchemeMap = new Map();
+    const paperCodes = new Map<string, string | null>();
+    const entriesByPaper = new Map<string, MarkSchemeEntry[]>();
 
-      await storage.updateProcessingJob(jobId, {
-        progress: 75,
-        statusMessage: 'Finalizing PDF...'
-      });
+    for (const question of questions) {
+      if (!question.documentId) continue;
 
-      // Save generated PDF record
-      const generatedPdf = await storage.createGeneratedPdf({
-        filename: result.filename,
-        topicId: topic.id,
-        subject: topic.subject,
-        mainTopic: topic.mainTopic,
-        subtopic: topic.subtopic,
-        questionCount: result.questionCount,
-        diagramCount: result.diagramCount,
-        fileSize: result.fileSize,
-        filePath: result.filePath,
-        configuration: config
-      });
+      if (!paperCodes.has(question.documentId)) {
+        const document = await storage.getDocument(question.documentId);
+        paperCodes.set(question.documentId, document ? documentPaperCode(document) : null);
+      }
 
-      await storage.updateProcessingJob(jobId, {
-        status: 'completed',
-        progress: 100,
-        statusMessage: 'PDF generated successfully',
-        result: { pdfId: generatedPdf.id, ...result }
-      });
-    } catch (error) {
-      await storage.updateProcessingJob(jobId, {
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        statusMessage: 'PDF generation failed'
-      });
-    }
-  }
+      const paperCode = paperCodes.get(question.documentId);
+      if (!paperCode) continue;
 
-  // Helper function to convert SVG to PNG (simplified simulation)
-  async function convertSvgToPng(svgBase64: string): Promise<string> {
-    try {
-      // In a real implementation, you would use a library like sharp or puppeteer
-      // For now, we'll create a simple PNG placeholder
-      const pngPlaceholder = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
-      return pngPlaceholder;
-    } catch (error) {
-      throw new Error('Failed to convert SVG to PNG');
+      if (!entriesByPaper.has(paperCode)) {
+        entriesByPaper.set(paperCode, await storage.getMarkSchemeEntriesByPaperCode(paperCode));
+      }
+
+      const entries = entriesByPaper.get(paperCode)!;
+      answers.set(question.id, markSchemeProcessor.matchEntriesToQuestion(entries, question));
     }
+
+    return answers;
   }
 
   // Background function to process past papers
-  async function processPastPapersAsync(jobId: string, pastPaperDocuments: any[], subject: string) {
-    try {
-      await storage.updateProcessingJob(jobId, {
-        progress: 10,
-        statusMessage: 'Loading available topics...'
+  async function processPastPapersAsync(jobId: string, pastPaperDocuments: any[], subject: string, signal?: AbortSignal): Promise<Partial<ProcessingJob>> {
+    await storage.updateProcessingJob(jobId, {
+      progress: 10,
+      statusMessage: 'Loading available topics...'
+    });
+
+    // Get available topics for categorization
+    const { topicsForAI, resolveTopics } = await loadTopicsForCategorization(subject);
+
+    await storage.updateProcessingJob(jobId, {
+      progress: 20,
+      statusMessage: `Processing ${pastPaperDocuments.length} past paper documents...`
+    });
+
+    let processedDocuments = 0;
+    let totalQuestions = 0;
+    const rejects: Array<AiReject & { documentId: string }> = [];
+    const outcomes: DocumentOutcome[] = [];
+
+    // Saved as each document starts and finishes, so the panel shows where the job is and a
+    // cancelled or crashed job still shows what it finished
+    const recordOutcome = async (outcome: DocumentOutcome) => {
+      const index = outcomes.findIndex(existing => existing.documentId === outcome.documentId);
+      if (index >= 0) {
+        outcomes[index] = outcome;
+      } else {
+        outcomes.push(outcome);
+      }
+      await storage.updateProcessingJob(jobId, { result: { documents: outcomes } });
+    };
+
+    console.log(`📋 Starting to process ${pastPaperDocuments.length} past paper documents`);
+    await jobQueue.log(jobId, 'info', `Processing ${pastPaperDocuments.length} past paper documents against ${topicsForAI.length} topics`);
+
+    for (const document of pastPaperDocuments) {
+      signal?.throwIfAborted();
+      const questionsBefore = totalQuestions;
+      const rejectsBefore = rejects.length;
+      const usage: AiUsage = { calls: 0, tokens: 0 };
+      const startedAt = Date.now();
+
+      const outcomeOf = (status: DocumentOutcome['status'], error?: string): DocumentOutcome => ({
+        documentId: document.id,
+        filename: document.filename,
+        status,
+        questions: totalQuestions - questionsBefore,
+        rejected: rejects.length - rejectsBefore,
+        tokensUsed: usage.tokens,
+        durationMs: Date.now() - startedAt,
+        ...(error ? { error } : {})
       });
 
-      // Get available topics for categorization
-      const availableTopics = await storage.getTopicsBySubject(subject);
-      const topicsForAI = availableTopics.map(t => ({
-        mainTopic: t.mainTopic,
-        subtopics: availableTopics
-          .filter(st => st.mainTopic === t.mainTopic && st.subtopic)
-          .map(st => st.subtopic!)
-          .filter(Boolean),
-        description: t.description || ''
-      }));
+      const finishDocument = async (status: DocumentOutcome['status'], error?: string) => {
+        const outcome = outcomeOf(status, error);
+        await recordOutcome(outcome);
+        processedDocuments++;
+
+        const details = { documentId: document.id, data: { ...outcome } };
+        if (status === 'failed') {
+          await jobQueue.log(jobId, 'error', `Failed to process ${document.filename}: ${error}`, details);
+        } else if (status === 'skipped') {
+          await jobQueue.log(jobId, 'warning', `Skipped ${document.filename}: ${error}`, details);
+        } else if (outcome.questions === 0) {
+          await jobQueue.log(jobId, 'warning', `No questions found in ${document.filename}`, details);
+        } else {
+          await jobQueue.log(jobId, 'info', `Extracted ${outcome.questions} questions from ${document.filename}`, details);
+        }
+      };
+
+      try {
+        const currentProgress = 20 + Math.floor((processedDocuments / pastPaperDocuments.length) * 70);
+        console.log(`📄 Processing document ${processedDocuments + 1}/${pastPaperDocuments.length}: ${document.filename}`);
+        
+        await storage.updateProcessingJob(jobId, {
+          progress: currentProgress,
+          statusMessage: `Analyzing ${document.filename}... (${processedDocuments + 1}/${pastPaperDocuments.length})`
+        });
+        await recordOutcome(outcomeOf('processing'));
 
-      await storage.updateProcessingJob(jobId, {
-        progress: 20,
-        statusMessage: `Processing ${pastPaperDocuments.length} past paper documents...`
-      });
+        if (!document.extractedText || document.extractedText.trim().length === 0) {
+          console.log(`⚠️ Skipping ${document.filename} - no extracted text (length: ${document.extractedText?.length || 0})`);
+          console.log(`📄 Document status: ${document.processingStatus}, Content preview: "${document.content?.substring(0, 100) || 'No content'}"`);
+          
+          // Try to re-extract if content exists but extractedText doesn't
+          if (document.content && document.content.trim().length > 50 && !document.extractedText) {
+            console.log(`🔧 Attempting to use document content as extracted text for ${document.filename}`);
+            document.extractedText = document.content;
+          } else {
+            await finishDocument('skipped', 'No extracted text');
+            continue;
+          }
+        }
 
-      let processedDocuments = 0;
-      let totalQuestions = 0;
+        // Skip if the extracted text indicates a PDF processing error
+        if (document.extractedText.includes('[PDF Processing Error')) {
+          console.log(`⚠️ Skipping ${document.filename} - PDF has processing errors`);
+          await finishDocument('skipped', 'PDF has processing errors');
+          continue;
+        }
 
-      console.log(`📋 Starting to process ${pastPaperDocuments.length} past paper documents`);
+        // Categorize questions using AI
+        console.log(`🤖 AI analyzing ${document.filename} for questions in ${topicsForAI.length} available topics...`);
+        const onReject = (reject: AiReject) => { rejects.push({ ...reject, documentId: document.id }); };
+        const extractedQuestions = await trackAiUsage(usage, () => extractQuestions(
+          document.extractedText,
+          topicsForAI,
+          subject,
+          onReject
+        ));
+        console.log(`📊 AI found ${extractedQuestions.length} questions in ${document.filename}`);
 
-      for (const document of pastPaperDocuments) {
-        try {
-          const currentProgress = 20 + Math.floor((processedDocuments / pastPaperDocuments.length) * 70);
-          console.log(`📄 Processing document ${processedDocuments + 1}/${pastPaperDocuments.length}: ${document.filename}`);
-          
-          await storage.updateProcessingJob(jobId, {
-            progress: currentProgress,
-            statusMessage: `Analyzing ${document.filename}... (${processedDocuments + 1}/${pastPaperDocuments.length})`
+        // Save questions to storage
+        for (const question of extractedQuestions) {
+          const topicTags = await resolveTopics(question);
+
+          console.log(`💾 Saving question: "${question.questionText.substring(0, 50)}..." to ${topicTags.length} topic(s): ${question.topicMatch}`);
+          const savedQuestion = await storage.upsertQuestion({
+            documentId: document.id,
+            topicId: topicTags[0].topicId,
+            questionText: question.questionText,
+            questionNumber: question.questionNumber,
+            paperYear: document.paperYear?.toString() || null,
+            paperSession: document.paperSeries || null,
+            hasVectorDiagram: question.hasVectorDiagram,
+            diagramData: buildQuestionSourceData(document, question.questionNumber),
+            difficulty: question.difficulty,
+            marks: question.marks || 1
           });
+          await storage.setQuestionTopics(savedQuestion.id, topicTags);
+          totalQuestions++;
+          console.log(`✅ Saved question ${totalQuestions}. Vector diagram: ${question.hasVectorDiagram}`);
+        }
 
-          if (!document.extractedText || document.extractedText.trim().length === 0) {
-            console.log(`⚠️ Skipping ${document.filename} - no extracted text (length: ${document.extractedText?.length || 0})`);
-            console.log(`📄 Document status: ${document.processingStatus}, Content preview: "${document.content?.substring(0, 100) || 'No content'}"`);
-            
-            // Try to re-extract if content exists but extractedText doesn't
-            if (document.content && document.content.trim().length > 50 && !document.extractedText) {
-              console.log(`🔧 Attempting to use document content as extracted text for ${document.filename}`);
-              document.extractedText = document.content;
-            } else {
-              processedDocuments++;
-              continue;
-            }
-          }
+        await finishDocument('completed');
+      } catch (error) {
+        console.error(`❌ Error processing ${document.filename}:`, error);
+        const currentProgress = 20 + Math.floor((processedDocuments / pastPaperDocuments.length) * 60);
+        await storage.updateProcessingJob(jobId, {
+          progress: currentProgress,
+          statusMessage: `Error processing ${document.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+        // Continue with other documents
+        await finishDocument('failed', error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
 
-          // Skip if the extracted text indicates a PDF processing error
-          if (document.extractedText.includes('[PDF Processing Error')) {
-            console.log(`⚠️ Skipping ${document.filename} - PDF has processing errors`);
-            processedDocuments++;
-            continue;
-          }
+    return {
+      statusMessage: `Successfully categorized ${totalQuestions} questions from ${processedDocuments} documents`,
+      result: {
+        documentsProcessed: processedDocuments,
+        documentsFailed: outcomes.filter(outcome => outcome.status === 'failed').length,
+        questionsExtracted: totalQuestions,
+        rejectedResponses: rejects.length,
+        documents: outcomes
+      },
+      rejects
+    };
+  }
+
+  // Creates a document for each file chosen in an archive preview and processes it in turn
+  async function importArchiveAsync(jobId: string, importId: string, signal?: AbortSignal): Promise<Partial<ProcessingJob>> {
+    const manifest = await archiveImporter.load(importId);
+    if (!manifest) {
+      throw new Error('The unpacked archive is gone. Upload it again');
+    }
+
+    // Files imported or skipped by an earlier run are left as they are
+    const entries = manifest.entries
+      .filter(entry => entry.include && entry.type && entry.subject && entry.status !== 'completed' && entry.status !== 'skipped')
+      .sort((a, b) => IMPORT_ORDER[a.type!] - IMPORT_ORDER[b.type!]);
+    const outcomes: DocumentOutcome[] = [];
+    const uploadedHashes = new Map<string, Document>();
+    const rejects: Array<AiReject & { documentId: string }> = [];
+
+    const recordOutcome = async (entry: ImportEntry, outcome: DocumentOutcome) => {
+      outcomes.push(outcome);
+      entry.status = outcome.status === 'processing' ? undefined : outcome.status;
+      await archiveImporter.save(manifest);
+      await storage.updateProcessingJob(jobId, { result: { documents: outcomes } });
+    };
+
+    await jobQueue.log(jobId, 'info', `Importing ${entries.length} files from ${manifest.archiveName}`);
+
+    for (let index = 0; index < entries.length; index++) {
+      signal?.throwIfAborted();
+      const entry = entries[index];
+      const filename = path.basename(entry.name);
+      const startedAt = Date.now();
+      const usage: AiUsage = { calls: 0, tokens: 0 };
+
+      await storage.updateProcessingJob(jobId, {
+        progress: 5 + Math.floor((index / entries.length) * 90),
+        statusMessage: `Importing ${filename}... (${index + 1}/${entries.length})`
+      });
 
-          // Categorize questions using AI
-          console.log(`🤖 AI analyzing ${document.filename} for questions in ${topicsForAI.length} available topics...`);
-          const extractedQuestions = await categorizeQuestions(
-            document.extractedText,
-            topicsForAI,
-            subject
+      try {
+        // Documents created by an earlier attempt are picked up again, not created twice
+        if (!entry.documentId) {
+          // Moves the file out of the import directory into the file store
+          const { document, created, duplicate } = await addUploadedFile(
+            { path: entry.filePath, originalname: filename, size: entry.size }, entry.type!, entry.subject!, 'skip', uploadedHashes
           );
-          console.log(`📊 AI found ${extractedQuestions.length} questions in ${document.filename}`);
-
-          // Save questions to storage
-          for (const question of extractedQuestions) {
-            const matchingTopic = availableTopics.find(t => 
-              t.mainTopic === question.topicMatch && 
-              (!question.subtopicMatch || t.subtopic === question.subtopicMatch)
-            );
-
-            if (matchingTopic) {
-              console.log(`💾 Saving question: "${question.questionText.substring(0, 50)}..." to topic: ${matchingTopic.mainTopic}`);
-              await storage.createQuestion({
-                documentId: document.id,
-                topicId: matchingTopic.id,
-                questionText: question.questionText,
-                questionNumber: question.questionNumber,
-                paperYear: extractYearFromFilename(document.filename)?.toString(),
-                paperSession: extractSessionFromFilename(document.filename) || null,
-                hasVectorDiagram: question.hasVectorDiagram,
-                difficulty: question.difficulty,
-                marks: question.marks || 1
-              });
-              totalQuestions++;
-              console.log(`✅ Saved question ${totalQuestions}. Vector diagram: ${question.hasVectorDiagram}`);
-            } else {
-              console.warn(`❌ No matching topic found for question: ${question.topicMatch}/${question.subtopicMatch}`);
-            }
+          if (!created || !document) {
+            const outcome: DocumentOutcome = {
+              documentId: duplicate!.existingDocumentId, filename, status: 'skipped',
+              questions: 0, rejected: 0, tokensUsed: 0, durationMs: Date.now() - startedAt,
+              error: `Already uploaded as ${duplicate!.existingFilename}`
+            };
+            await recordOutcome(entry, outcome);
+            await jobQueue.log(jobId, 'warning', `Skipped ${filename}: already uploaded as ${duplicate!.existingFilename}`, { documentId: outcome.documentId, data: { ...outcome } });
+            continue;
           }
 
-          processedDocuments++;
-        } catch (error) {
-          console.error(`❌ Error processing ${document.filename}:`, error);
-          const currentProgress = 20 + Math.floor((processedDocuments / pastPaperDocuments.length) * 60);
-          await storage.updateProcessingJob(jobId, {
-            progress: currentProgress,
-            statusMessage: `Error processing ${document.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`
-          });
-          // Continue with other documents
-          processedDocuments++;
+          entry.documentId = document.id;
+          await archiveImporter.save(manifest);
         }
-      }
 
-      // Complete the job
-      await storage.updateProcessingJob(jobId, {
-        status: 'completed',
-        progress: 100,
-        statusMessage: `Successfully categorized ${totalQuestions} questions from ${processedDocuments} documents`,
-        result: {
-          documentsProcessed: processedDocuments,
-          questionsExtracted: totalQuestions
+        const document = await storage.getDocument(entry.documentId);
+        if (!document) {
+          throw new Error('Its document was deleted during the import');
+        }
+        if (document.processingStatus !== 'completed') {
+          const documentRejects = await trackAiUsage(usage, () => processDocumentAsync(document.id, (document.metadata as any)?.originalPath || entry.filePath, signal, jobId));
+          rejects.push(...documentRejects.map(reject => ({ ...reject, documentId: document.id })));
         }
-      });
 
-    } catch (error) {
-      console.error('Error processing past papers:', error);
-      await storage.updateProcessingJob(jobId, {
-        status: 'error',
-        progress: 0,
-        statusMessage: 'Failed to process past papers',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+        const processed = await storage.getDocument(document.id);
+        const outcome: DocumentOutcome = {
+          documentId: document.id,
+          filename,
+          status: 'completed',
+          questions: (await storage.getQuestionsByDocument(document.id)).length,
+          rejected: ((processed?.metadata as any)?.aiRejects || []).length,
+          tokensUsed: usage.tokens,
+          durationMs: Date.now() - startedAt
+        };
+        await recordOutcome(entry, outcome);
+        await jobQueue.log(jobId, 'info', `Imported ${filename} as ${entry.type}`, { documentId: document.id, data: { ...outcome } });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Error importing ${filename}:`, error);
+        const outcome: DocumentOutcome = {
+          documentId: entry.documentId || '',
+          filename,
+          status: 'failed',
+          questions: 0,
+          rejected: 0,
+          tokensUsed: usage.tokens,
+          durationMs: Date.now() - startedAt,
+          error: message
+        };
+        await recordOutcome(entry, outcome);
+        await jobQueue.log(jobId, 'error', `Failed to import ${filename}: ${message}`, { documentId: entry.documentId, data: { ...outcome } });
+      }
+    }
+
+    const count = (status: DocumentOutcome['status']) => outcomes.filter(outcome => outcome.status === status).length;
+    // Failed files stay unpacked for a retry of this job
+    if (count('failed') === 0) {
+      await archiveImporter.discard(importId);
     }
-  }
 
-  function extractYearFromFilename(filename: string): number | undefined {
-    const yearMatch = filename.match(/(\d{4})/);
-    return yearMatch ? parseInt(yearMatch[1]) : undefined;
+    return {
+      statusMessage: `Imported ${count('completed')} of ${entries.length} files from ${manifest.archiveName}`,
+      result: {
+        documentsImported: count('completed'),
+        documentsSkipped: count('skipped'),
+        documentsFailed: count('failed'),
+        documents: outcomes
+      },
+      rejects
+    };
   }
 
-  function extractSessionFromFilename(filename: string): string | undefined {
-    if (filename.includes('_s')) return 'summer';
-    if (filename.includes('_w')) return 'winter';
-    if (filename.includes('_m')) return 'march';
-    return undefined;
+  // Links a question paper to its marking scheme, e.g. "5054_s19_21" for both 5054_s19_qp_21 and 5054_s19_ms_21
+  function documentPaperCode(document: Document): string | null {
+    if (!document.syllabusCode || !document.paperYear || !document.paperSeries) return null;
+    return paperIdentityParser.paperCode({
+      syllabusCode: document.syllabusCode,
+      year: document.paperYear,
+      series: document.paperSeries as PaperSeries,
+      component: document.component,
+      variant: document.variant
+    });
   }
 
   const httpServer = createServer(app);
@@ -0,0 +1,120 @@
+import type { PoolClient } from "@neondatabase/serverless";
+import { pool } from "../db";
+
+// One-off cleanup for databases filled before topics and questions were upserted on their
+// natural keys. Run it before `npm run db:push`, which cannot add the unique constraints
+// while duplicates remain:
+//
+//   npm run db:dedupe
+//
+// Duplicate topics (same subject, main topic and subtopic) are merged into the oldest one,
+// with questions, question tags, generated PDFs and child topics moved over. Duplicate
+// questions (same document and question number) are dropped in favour of the oldest, whose
+// id earlier worksheets and PDFs are most likely to refer to; their tags move to it.
+
+async function tableHasColumn(client: PoolClient, table: string, column: string): Promise<boolean> {
+  const result = await client.query(
+    `select 1 from information_schema.columns where table_schema = current_schema() and table_name = $1 and column_name = $2`,
+    [table, column]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Re-tags with the kept topic or question. Tags are copied rather than updated in place, so a
+// tag the kept one already has is skipped where question_topics already has its unique constraint.
+async function moveTags(client: PoolClient, column: 'topic_id' | 'question_id', mergeTable: string): Promise<void> {
+  const other = column === 'topic_id' ? 'question_id' : 'topic_id';
+  await client.query(`
+    insert into question_topics (${other}, ${column}, confidence, created_at)
+    select t.${other}, m.keep_id, t.confidence, t.created_at
+    from question_topics t join ${mergeTable} m on t.${column} = m.id
+    on conflict do nothing
+  `);
+  await client.query(`delete from question_topics t using ${mergeTable} m where t.${column} = m.id`);
+}
+
+async function mergeDuplicateTopics(client: PoolClient): Promise<number> {
+  await client.query(`
+    create temp table topic_merge on commit drop as
+    select id, keep_id from (
+      select id, first_value(id) over (
+        partition by subject, main_topic, subtopic order by created_at nulls last, id
+      ) as keep_id
+      from topics
+    ) ranked
+    where id <> keep_id
+  `);
+
+  await client.query(`update questions q set topic_id = m.keep_id from topic_merge m where q.topic_id = m.id`);
+  await client.query(`update generated_pdfs p set topic_id = m.keep_id from topic_merge m where p.topic_id = m.id`);
+  if (await tableHasColumn(client, 'question_topics', 'topic_id')) {
+    await moveTags(client, 'topic_id', 'topic_merge');
+  }
+  if (await tableHasColumn(client, 'topics', 'parent_id')) {
+    await client.query(`update topics t set parent_id = m.keep_id from topic_merge m where t.parent_id = m.id`);
+  }
+
+  const deleted = await client.query(`delete from topics t using topic_merge m where t.id = m.id`);
+  return deleted.rowCount ?? 0;
+}
+
+async function dropDuplicateQuestions(client: PoolClient): Promise<number> {
+  // Questions missing either key never conflict: the constraint treats nulls as distinct
+  await client.query(`
+    create temp table question_merge on commit drop as
+    select id, keep_id from (
+      select id, first_value(id) over (
+        partition by document_id, question_number order by created_at nulls last, id
+      ) as keep_id
+      from questions
+      where document_id is not null and question_number is not null
+    ) ranked
+    where id <> keep_id
+  `);
+
+  if (await tableHasColumn(client, 'question_topics', 'question_id')) {
+    await moveTags(client, 'question_id', 'question_merge');
+  }
+
+  const deleted = await client.query(`delete from questions q using question_merge m where q.id = m.id`);
+  return deleted.rowCount ?? 0;
+}
+
+// Without the unique constraint, moving tags can tag a question with a topic twice
+async function dropDuplicateTags(client: PoolClient): Promise<number> {
+  if (!await tableHasColumn(client, 'question_topics', 'id')) return 0;
+
+  const deleted = await client.query(`
+    delete from question_topics t
+    using (
+      select id, row_number() over (partition by question_id, topic_id order by confidence desc nulls last, id) as position
+      from question_topics
+    ) ranked
+    where t.id = ranked.id and ranked.position > 1
+  `);
+  return deleted.rowCount ?? 0;
+}
+
+async function main() {
+  const client = await pool.connect();
+  try {
+    await client.query('begin');
+    const topicsMerged = await mergeDuplicateTopics(client);
+    const questionsDropped = await dropDuplicateQuestions(client);
+    const tagsDropped = await dropDuplicateTags(client);
+    await client.query('commit');
+
+    console.log(`✅ Merged ${topicsMerged} duplicate topics, dropped ${questionsDropped} duplicate questions and ${tagsDropped} repeated question tags`);
+  } catch (error) {
+    await client.query('rollback');
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Cleanup failed, nothing was changed:', error instanceof Error ? error.message : 'Unknown error');
+  process.exit(1);
+});
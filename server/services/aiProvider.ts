@@ -0,0 +1,126 @@
+import OpenAI from "openai";
+import { AsyncLocalStorage } from "async_hooks";
+import { FakeAiProvider } from "./fakeAiProvider";
+
+export type AiTask =
+  | 'syllabus-topics'
+  | 'question-categorization'
+  | 'question-classification'
+  | 'diagram-analysis'
+  | 'question-metadata';
+
+export interface AiJsonRequest {
+  task: AiTask;
+  system?: string;
+  prompt: string;
+  image?: string; // base64 JPEG sent alongside the prompt
+  temperature?: number;
+  maxTokens?: number;
+  // Structured form of what the prompt describes, for providers that don't read prompts
+  input?: unknown;
+}
+
+// Tokens spent by the AI calls made inside trackAiUsage
+export interface AiUsage {
+  calls: number;
+  tokens: number;
+}
+
+const usageScope = new AsyncLocalStorage<AiUsage>();
+
+// Adds the tokens of every AI call `work` makes to `usage`. The caller owns the counter,
+// so calls made before a failure are still counted, and jobs running side by side each
+// count only their own calls.
+export function trackAiUsage<T>(usage: AiUsage, work: () => Promise<T>): Promise<T> {
+  return usageScope.run(usage, work);
+}
+
+function recordAiUsage(tokens: number) {
+  const usage = usageScope.getStore();
+  if (usage) {
+    usage.calls++;
+    usage.tokens += tokens;
+  }
+}
+
+// Every AI call in the app asks for a JSON object and receives its raw text
+export interface AiProvider {
+  readonly name: string;
+  completeJson(request: AiJsonRequest): Promise<string>;
+}
+
+// Talks to OpenAI or any server exposing the same chat completions API (vLLM, Ollama, LM Studio...)
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(options: { apiKey?: string; baseURL?: string; model: string }) {
+    if (!options.apiKey && !options.baseURL) {
+      throw new Error('No AI API key configured. Set OPENAI_API_KEY, point AI_BASE_URL at a compatible server, or set AI_PROVIDER=fake');
+    }
+
+    // Self-hosted servers usually ignore the key, but the client insists on one
+    this.client = new OpenAI({ apiKey: options.apiKey || 'not-required', baseURL: options.baseURL });
+    this.model = options.model;
+    this.name = options.baseURL ? `openai-compatible (${options.baseURL})` : 'openai';
+  }
+
+  async completeJson(request: AiJsonRequest): Promise<string> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+    if (request.system) {
+      messages.push({ role: "system", content: request.system });
+    }
+
+    messages.push(request.image
+      ? {
+          role: "user",
+          content: [
+            { type: "text", text: request.prompt },
+            { type: "image_url", image_url: { url: `data:image/jpeg;base64,${request.image}` } }
+          ]
+        }
+      : { role: "user", content: request.prompt });
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: { type: "json_object" }
+    });
+
+    recordAiUsage(response.usage?.total_tokens ?? 0);
+    return response.choices[0].message.content || '{}';
+  }
+}
+
+// AI_PROVIDER selects the implementation: 'openai' (default) or 'fake' for machines without network access
+export function createAiProvider(env: NodeJS.ProcessEnv = process.env): AiProvider {
+  const providerName = (env.AI_PROVIDER || 'openai').toLowerCase();
+
+  switch (providerName) {
+    case 'fake':
+      return new FakeAiProvider(env.AI_FIXTURES_DIR);
+    case 'openai':
+      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      return new OpenAiCompatibleProvider({
+        apiKey: env.AI_API_KEY || env.OPENAI_API_KEY || env.OPENAI_API_KEY_ENV_VAR,
+        baseURL: env.AI_BASE_URL,
+        model: env.AI_MODEL || "gpt-4o"
+      });
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${providerName}". Use "openai" or "fake"`);
+  }
+}
+
+let provider: AiProvider | null = null;
+
+// Created on first use so a missing key only fails the AI step, not server start-up
+export function getAiProvider(): AiProvider {
+  if (!provider) {
+    provider = createAiProvider();
+    console.log(`🤖 Using AI provider: ${provider.name}`);
+  }
+  return provider;
+}
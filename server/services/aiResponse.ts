@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { getAiProvider, type AiJsonRequest, type AiTask } from "./aiProvider";
+
+// A failing response is re-prompted with its validation errors at most this many times
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// A response (or one item of it) that still failed validation after every repair attempt
+export interface AiReject {
+  task: AiTask;
+  item: unknown;
+  errors: string[];
+}
+
+export type AiRejectHandler = (reject: AiReject) => void;
+
+function formatIssues(error: z.ZodError, prefix = ''): string[] {
+  return error.issues.map(issue => {
+    const location = [prefix, ...issue.path.map(String)].filter(Boolean).join('.');
+    return location ? `${location}: ${issue.message}` : issue.message;
+  });
+}
+
+function parseJson(content: string): { value?: unknown; error?: string } {
+  try {
+    return { value: JSON.parse(content) };
+  } catch (error) {
+    return { error: `Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
+
+function repairPrompt(request: AiJsonRequest, content: string, errors: string[]): string {
+  return `${request.prompt}\n\nYour previous response did not match the required format:\n${content}\n\nValidation errors:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReturn the complete corrected JSON object, using exactly the field names and allowed values described above.`;
+}
+
+interface InvalidItem {
+  item: unknown;
+  errors: string[];
+}
+
+// Asks only for the items that failed validation, so items already accepted aren't at the
+// mercy of a repair that returns fewer of them
+function repairItemsPrompt(request: AiJsonRequest, key: string, outstanding: InvalidItem[], responseErrors: string[]): string {
+  const items = outstanding.map(entry => `${JSON.stringify(entry.item)}\n${entry.errors.map(error => `- ${error}`).join('\n')}`);
+  const unusable = responseErrors.length > 0
+    ? `\n\nYour last reply could not be used:\n${responseErrors.map(error => `- ${error}`).join('\n')}`
+    : '';
+  return `${request.prompt}\n\nThese items of your previous response did not match the required format:\n${items.join('\n\n')}${unusable}\n\nReturn a JSON object with "${key}" holding only these items, corrected, using exactly the field names and allowed values described above.`;
+}
+
+// Asks for a JSON object holding an array under `key` and validates each item. Invalid
+// items trigger a repair re-prompt for just those items; valid items from every attempt
+// are kept, and whatever is still invalid after the last attempt is handed to onReject.
+export async function requestValidatedItems<T>(
+  request: AiJsonRequest,
+  key: string,
+  itemSchema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  onReject?: AiRejectHandler
+): Promise<T[]> {
+  let prompt = request.prompt;
+  const accepted: T[] = [];
+  const acceptedKeys = new Set<string>();
+  // Items still to be corrected; null until a response has parsed
+  let outstanding: InvalidItem[] | null = null;
+
+  for (let attempt = 0; ; attempt++) {
+    const content = await getAiProvider().completeJson({ ...request, prompt });
+    const parsed = parseJson(content);
+    const invalid: InvalidItem[] = [];
+    let responseErrors: string[] = [];
+
+    if (parsed.error) {
+      responseErrors = [parsed.error];
+    } else {
+      const items = (parsed.value as any)?.[key];
+      if (!Array.isArray(items)) {
+        responseErrors = [`"${key}" must be an array`];
+      } else {
+        items.forEach((item, index) => {
+          const result = itemSchema.safeParse(item);
+          if (!result.success) {
+            invalid.push({ item, errors: formatIssues(result.error, `${key}.${index}`) });
+            return;
+          }
+          // A repair may send back items that were accepted already
+          const itemKey = JSON.stringify(result.data);
+          if (!acceptedKeys.has(itemKey)) {
+            acceptedKeys.add(itemKey);
+            accepted.push(result.data);
+          }
+        });
+      }
+    }
+
+    // An unusable repair leaves the items it was asked to correct outstanding
+    if (responseErrors.length === 0) outstanding = invalid;
+    const remaining = outstanding || [];
+    const errors = [...responseErrors, ...remaining.flatMap(entry => entry.errors)];
+    if (errors.length === 0) return accepted;
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      console.warn(`⚠️ ${request.task} response still invalid after ${attempt} repair attempts: ${errors.slice(0, 5).join('; ')}`);
+      if (responseErrors.length > 0) {
+        onReject?.({ task: request.task, item: content, errors: responseErrors });
+      }
+      remaining.forEach(entry => onReject?.({ task: request.task, ...entry }));
+      return accepted;
+    }
+
+    console.log(`🔧 Repairing ${request.task} response (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS}): ${errors.length} validation errors`);
+    prompt = outstanding === null
+      ? repairPrompt(request, content, errors)
+      : repairItemsPrompt(request, key, outstanding, responseErrors);
+  }
+}
+
+// Asks for a single JSON object matching the schema, with the same repair loop.
+// Returns null when the response could not be repaired.
+export async function requestValidatedObject<T>(
+  request: AiJsonRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  onReject?: AiRejectHandler
+): Promise<T | null> {
+  let prompt = request.prompt;
+
+  for (let attempt = 0; ; attempt++) {
+    const content = await getAiProvider().completeJson({ ...request, prompt });
+    const parsed = parseJson(content);
+    let errors: string[];
+
+    if (parsed.error) {
+      errors = [parsed.error];
+    } else {
+      const result = schema.safeParse(parsed.value);
+      if (result.success) return result.data;
+      errors = formatIssues(result.error);
+    }
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      console.warn(`⚠️ ${request.task} response still invalid after ${attempt} repair attempts: ${errors.slice(0, 5).join('; ')}`);
+      onReject?.({ task: request.task, item: parsed.value ?? content, errors });
+      return null;
+    }
+
+    console.log(`🔧 Repairing ${request.task} response (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS}): ${errors.length} validation errors`);
+    prompt = repairPrompt(request, content, errors);
+  }
+}
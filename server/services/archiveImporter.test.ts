@@ -0,0 +1,132 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MemStorage } from "../storage";
+import { ArchiveImporter, type ImportManifest } from "./archiveImporter";
+
+// The cover page text each test's PDF would have
+const cover = vi.hoisted(() => ({ text: "", reads: 0 }));
+const memory = vi.hoisted(() => ({ storage: null as unknown as MemStorage }));
+
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  return {
+    ...actual,
+    get storage() {
+      return memory.storage;
+    },
+  };
+});
+
+vi.mock("./pdfProcessor", () => ({
+  pdfProcessor: {
+    extractContent: async () => {
+      cover.reads++;
+      return { text: cover.text, pages: [{ text: cover.text }] };
+    },
+  },
+}));
+
+const importer = new ArchiveImporter("/tmp/imports");
+
+beforeEach(() => {
+  cover.text = "";
+  cover.reads = 0;
+});
+
+describe("ArchiveImporter.classify", () => {
+  it("imports question papers and mark schemes named by their Cambridge code", async () => {
+    expect(await importer.classify("papers/5054_s19_qp_21.pdf", "/tmp/1.pdf", 10)).toMatchObject({
+      type: "pastpaper", kind: "qp", subject: "physics", subjectSource: "filename", include: true,
+    });
+    expect(await importer.classify("5070_w18_ms_22.pdf", "/tmp/2.pdf", 10)).toMatchObject({
+      type: "markingscheme", kind: "ms", subject: "chemistry", include: true,
+    });
+    expect(cover.reads).toBe(0);
+  });
+
+  it("never imports inserts as past papers", async () => {
+    const entry = await importer.classify("5054_w18_in_22.pdf", "/tmp/3.pdf", 10);
+
+    expect(entry).toMatchObject({ type: null, kind: "in", include: false });
+    expect(entry.reason).toMatch(/insert/i);
+  });
+
+  it("leaves out examiner reports and grade thresholds", async () => {
+    expect(await importer.classify("5054_s19_er.pdf", "/tmp/4.pdf", 10)).toMatchObject({ type: null, include: false });
+    expect(await importer.classify("5054_s19_gt.pdf", "/tmp/5.pdf", 10)).toMatchObject({ type: null, include: false });
+  });
+
+  it("reads the subject and syllabus type from the cover page when the name lacks them", async () => {
+    cover.text = "Cambridge O Level Biology 5090 Syllabus for examination in 2025";
+
+    expect(await importer.classify("download (3).pdf", "/tmp/6.pdf", 10)).toMatchObject({
+      type: "syllabus", subject: "biology", subjectSource: "cover", include: true,
+    });
+  });
+
+  it("stops reading cover pages once the archive's budget is spent", async () => {
+    cover.text = "Cambridge O Level Biology 5090 Syllabus";
+    const coverReads = { remaining: 1 };
+
+    expect(await importer.classify("a.pdf", "/tmp/8.pdf", 10, coverReads)).toMatchObject({ type: "syllabus", include: true });
+    expect(await importer.classify("b.pdf", "/tmp/9.pdf", 10, coverReads)).toMatchObject({ type: null, include: false });
+    expect(cover.reads).toBe(1);
+  });
+
+  it("asks for a choice when neither the name nor the cover says what the file is", async () => {
+    const entry = await importer.classify("scan.pdf", "/tmp/7.pdf", 10);
+
+    expect(entry).toMatchObject({ type: null, subject: null, include: false });
+    expect(entry.reason).toBeDefined();
+  });
+});
+
+describe("ArchiveImporter.removeStale", () => {
+  const HOUR = 60 * 60 * 1000;
+  let rootDir: string;
+  let stale: ArchiveImporter;
+
+  beforeEach(async () => {
+    const { MemStorage } = await import("../storage");
+    memory.storage = new MemStorage();
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "imports-"));
+    stale = new ArchiveImporter(rootDir, 24 * HOUR);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  async function addImport(ageMs: number, jobId?: string) {
+    const manifest: ImportManifest = { id: randomUUID(), archiveName: "papers.zip", createdAt: new Date(Date.now() - ageMs).toISOString(), entries: [], jobId };
+    fs.mkdirSync(path.join(rootDir, manifest.id));
+    await stale.save(manifest);
+    return manifest.id;
+  }
+
+  it("removes imports left past their maximum age unless their job is still running", async () => {
+    const abandoned = await addImport(25 * HOUR);
+    const recent = await addImport(HOUR);
+    const failed = await addImport(25 * HOUR, (await memory.storage.createProcessingJob({ type: "archive_import", status: "completed" })).id);
+    const running = await addImport(25 * HOUR, (await memory.storage.createProcessingJob({ type: "archive_import", status: "processing" })).id);
+
+    expect(await stale.removeStale()).toBe(2);
+    expect(fs.readdirSync(rootDir).sort()).toEqual([recent, running].sort());
+    expect(fs.existsSync(path.join(rootDir, abandoned))).toBe(false);
+    expect(fs.existsSync(path.join(rootDir, failed))).toBe(false);
+  });
+
+  it("removes unfinished unpacks by the age of their directory", async () => {
+    fs.mkdirSync(path.join(rootDir, "unfinished"));
+
+    expect(await stale.removeStale(Date.now() + 25 * HOUR)).toBe(1);
+    expect(fs.readdirSync(rootDir)).toEqual([]);
+  });
+
+  it("does nothing before the first import", async () => {
+    expect(await new ArchiveImporter(path.join(rootDir, "missing")).removeStale()).toBe(0);
+  });
+});
@@ -0,0 +1,297 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { pipeline } from "stream/promises";
+import yauzl from "yauzl";
+import { pdfProcessor } from "./pdfProcessor";
+import { paperIdentityParser, type PaperKind } from "./paperIdentity";
+import { storage } from "../storage";
+
+export type ImportDocumentType = 'syllabus' | 'pastpaper' | 'markingscheme';
+
+export interface ImportEntry {
+  name: string; // path inside the archive
+  filePath: string; // where the file was unpacked
+  size: number;
+  type: ImportDocumentType | null; // null when the file is not imported
+  kind: PaperKind | null;
+  subject: string | null;
+  subjectSource: 'filename' | 'cover' | null;
+  include: boolean;
+  reason?: string; // why the file is left out, or needs a choice before it can be included
+  documentId?: string; // set once the import job has created its document
+  status?: 'completed' | 'skipped' | 'failed'; // outcome of the last import run, so a retry redoes only failures
+}
+
+export interface ImportManifest {
+  id: string;
+  archiveName: string;
+  createdAt: string;
+  entries: ImportEntry[];
+  jobId?: string; // the import job, once the preview is confirmed; the latest retry after that
+}
+
+// Archives larger than this are rejected rather than unpacked
+const MAX_ENTRIES = 2000;
+const MAX_UNPACKED_BYTES = 4 * 1024 * 1024 * 1024;
+
+// Cover pages are read while the preview request waits, so only this many per archive;
+// files past it are left for the user to classify
+const MAX_COVER_READS = 100;
+
+const STALE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Cambridge syllabus codes for the subjects the app covers (O Level, IGCSE, AS & A Level)
+const SUBJECT_BY_SYLLABUS: Record<string, string> = {
+  '5054': 'physics', '0625': 'physics', '0972': 'physics', '9702': 'physics',
+  '5070': 'chemistry', '0620': 'chemistry', '0971': 'chemistry', '9701': 'chemistry',
+  '5090': 'biology', '0610': 'biology', '0970': 'biology', '9700': 'biology',
+};
+
+const SUBJECT_NAME = /\b(physics|chemistry|biology)\b/i;
+const SYLLABUS_NAME = /syllabus|(?:^|[_\-\s])sy(?:[_\-\s.]|$)/i;
+
+// Unpacks ZIP archives of past papers into uploads/imports/<id> and works out what each
+// file is from its Cambridge file name, falling back to the text of its cover page. The
+// classification is kept in a manifest next to the files until every included file has
+// been imported, so an import with failures can be retried.
+export class ArchiveImporter {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private rootDir = path.join('uploads', 'imports'), private maxAgeMs = importMaxAgeFromEnv()) {}
+
+  // Removes stale imports at startup and then on a timer
+  start(): void {
+    this.timer = setInterval(() => void this.removeStaleQuietly(), STALE_SWEEP_INTERVAL_MS);
+    this.timer.unref();
+    void this.removeStaleQuietly();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async unpack(archivePath: string, archiveName: string): Promise<ImportManifest> {
+    const id = randomUUID();
+    const directory = path.join(this.rootDir, id);
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    try {
+      const unpacked = await this.extractPdfs(archivePath, directory);
+      const entries: ImportEntry[] = [];
+      const coverReads = { remaining: MAX_COVER_READS };
+      for (const file of unpacked) {
+        entries.push(await this.classify(file.name, file.filePath, file.size, coverReads));
+      }
+
+      const manifest: ImportManifest = { id, archiveName, createdAt: new Date().toISOString(), entries };
+      await this.save(manifest);
+      return manifest;
+    } catch (error) {
+      await this.discard(id);
+      throw error;
+    }
+  }
+
+  async load(id: string): Promise<ImportManifest | null> {
+    // Import ids name a directory, so anything but a UUID is refused
+    if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+
+    try {
+      return JSON.parse(await fs.promises.readFile(this.manifestPath(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async save(manifest: ImportManifest): Promise<void> {
+    await fs.promises.writeFile(this.manifestPath(manifest.id), JSON.stringify(manifest, null, 2));
+  }
+
+  // Removes the unpacked files; files already moved into uploads/ by the import are kept
+  async discard(id: string): Promise<void> {
+    await fs.promises.rm(path.join(this.rootDir, id), { recursive: true, force: true });
+  }
+
+  // Imports that were never confirmed or cancelled, and failed imports that were never
+  // retried, once they are older than the maximum age. An import whose job is queued or
+  // running is kept. Directories without a manifest are unpacks that never finished.
+  async removeStale(now: number = Date.now()): Promise<number> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.rootDir);
+    } catch {
+      return 0; // nothing has been imported yet
+    }
+
+    let removed = 0;
+    for (const name of names) {
+      const manifest = await this.load(name);
+      const createdAt = manifest
+        ? Date.parse(manifest.createdAt)
+        : (await fs.promises.stat(path.join(this.rootDir, name)).catch(() => null))?.mtimeMs;
+      if (createdAt === undefined || now - createdAt < this.maxAgeMs) continue;
+
+      if (manifest?.jobId) {
+        const job = await storage.getProcessingJob(manifest.jobId);
+        if (job?.status === 'pending' || job?.status === 'processing') continue;
+      }
+
+      await this.discard(name);
+      removed++;
+    }
+
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} stale archive imports`);
+    }
+    return removed;
+  }
+
+  // Reads the cover page when the file name leaves the type or subject open, while
+  // coverReads has reads left
+  async classify(name: string, filePath: string, size: number, coverReads = { remaining: Infinity }): Promise<ImportEntry> {
+    const filename = path.basename(name);
+    const entry: ImportEntry = { name, filePath, size, type: null, kind: null, subject: null, subjectSource: null, include: false };
+    const identity = paperIdentityParser.parse(filename);
+
+    if (identity) {
+      entry.kind = identity.kind;
+      const subject = SUBJECT_BY_SYLLABUS[identity.syllabusCode];
+      if (subject) {
+        entry.subject = subject;
+        entry.subjectSource = 'filename';
+      }
+
+      switch (identity.kind) {
+        case 'qp':
+          entry.type = 'pastpaper';
+          break;
+        case 'ms':
+          entry.type = 'markingscheme';
+          break;
+        case 'in':
+          // Source material for a question paper's questions, not questions of its own
+          entry.reason = 'Inserts hold source material for a question paper and are not imported';
+          return entry;
+        default:
+          entry.reason = 'Examiner reports and grade thresholds are not imported';
+          return entry;
+      }
+    } else if (SYLLABUS_NAME.test(filename)) {
+      entry.type = 'syllabus';
+    }
+
+    const namedSubject = filename.match(SUBJECT_NAME);
+    if (!entry.subject && namedSubject) {
+      entry.subject = namedSubject[1].toLowerCase();
+      entry.subjectSource = 'filename';
+    }
+
+    // The cover page names the subject, and says so when the file is a syllabus
+    if ((!entry.subject || !entry.type) && coverReads.remaining > 0) {
+      coverReads.remaining--;
+      const cover = await this.readCover(filePath);
+      const subject = cover.match(SUBJECT_NAME);
+      if (!entry.subject && subject) {
+        entry.subject = subject[1].toLowerCase();
+        entry.subjectSource = 'cover';
+      }
+      if (!entry.type && /\bsyllabus\b/i.test(cover)) {
+        entry.type = 'syllabus';
+      }
+    }
+
+    if (!entry.type) {
+      entry.reason = 'Could not tell whether this is a syllabus, question paper or mark scheme';
+    } else if (!entry.subject) {
+      entry.reason = 'Could not find the subject in the file name or cover page';
+    } else {
+      entry.include = true;
+    }
+    return entry;
+  }
+
+  private async removeStaleQuietly(): Promise<void> {
+    try {
+      await this.removeStale();
+    } catch (error) {
+      console.error('❌ Removing stale archive imports failed:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private manifestPath(id: string): string {
+    return path.join(this.rootDir, id, 'manifest.json');
+  }
+
+  private async readCover(filePath: string): Promise<string> {
+    try {
+      const content = await pdfProcessor.extractContent(filePath, { mode: 'flat', ocr: false });
+      return content.pages[0]?.text || content.text.slice(0, 3000);
+    } catch (error) {
+      console.warn(`⚠️ Could not read the cover page of ${path.basename(filePath)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return '';
+    }
+  }
+
+  // Writes each PDF under a numbered name, so nothing in the archive chooses a path on disk
+  private extractPdfs(archivePath: string, directory: string): Promise<Array<{ name: string; filePath: string; size: number }>> {
+    return new Promise((resolve, reject) => {
+      yauzl.open(archivePath, { lazyEntries: true }, (openError, zipfile) => {
+        if (openError || !zipfile) {
+          reject(new Error(`Not a readable ZIP archive: ${openError?.message || 'unknown format'}`));
+          return;
+        }
+
+        const files: Array<{ name: string; filePath: string; size: number }> = [];
+        let unpackedBytes = 0;
+        const fail = (error: Error) => {
+          zipfile.close();
+          reject(error);
+        };
+
+        zipfile.on('error', fail);
+        zipfile.on('end', () => resolve(files));
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          const isPdf = !entry.fileName.endsWith('/') && entry.fileName.toLowerCase().endsWith('.pdf');
+          // macOS archives carry resource forks named like the real files
+          if (!isPdf || entry.fileName.startsWith('__MACOSX/') || path.basename(entry.fileName).startsWith('._')) {
+            zipfile.readEntry();
+            return;
+          }
+
+          unpackedBytes += entry.uncompressedSize;
+          if (files.length >= MAX_ENTRIES || unpackedBytes > MAX_UNPACKED_BYTES) {
+            fail(new Error(`Archives may hold at most ${MAX_ENTRIES} PDFs and ${MAX_UNPACKED_BYTES / (1024 * 1024 * 1024)}GB`));
+            return;
+          }
+
+          const filePath = path.join(directory, `${files.length + 1}.pdf`);
+          zipfile.openReadStream(entry, (streamError, stream) => {
+            if (streamError || !stream) {
+              fail(streamError || new Error(`Could not read ${entry.fileName}`));
+              return;
+            }
+            pipeline(stream, fs.createWriteStream(filePath))
+              .then(() => {
+                files.push({ name: entry.fileName, filePath, size: entry.uncompressedSize });
+                zipfile.readEntry();
+              })
+              .catch(fail);
+          });
+        });
+
+        zipfile.readEntry();
+      });
+    });
+  }
+}
+
+// IMPORT_MAX_AGE_HOURS sets how long an unpacked archive waits to be confirmed, cancelled or
+// retried before it is removed
+function importMaxAgeFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const hours = parseInt(env.IMPORT_MAX_AGE_HOURS || '', 10);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+export const archiveImporter = new ArchiveImporter();
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { MemStorage } from "../storage";
+import { AppEventBus, appEvents, type AppEvent } from "./events";
+
+describe("AppEventBus", () => {
+  it("delivers events to every subscriber until it unsubscribes", () => {
+    const bus = new AppEventBus();
+    const first: AppEvent[] = [];
+    const second: AppEvent[] = [];
+    const unsubscribe = bus.subscribe(event => first.push(event));
+    bus.subscribe(event => second.push(event));
+
+    bus.publish({ type: "document", documentId: "doc-1", status: "processing" });
+    unsubscribe();
+    bus.publish({ type: "document", documentId: "doc-1", status: "completed" });
+
+    expect(first).toEqual([{ type: "document", documentId: "doc-1", status: "processing" }]);
+    expect(second).toHaveLength(2);
+  });
+});
+
+describe("storage writes", () => {
+  it("publish the changes the browser refreshes on", async () => {
+    const storage = new MemStorage();
+    const events: AppEvent[] = [];
+    const unsubscribe = appEvents.subscribe(event => events.push(event));
+
+    try {
+      const topic = await storage.createTopic({ subject: "Physics", mainTopic: "Waves" });
+      const job = await storage.createProcessingJob({ type: "document_processing", status: "pending" });
+      await storage.updateProcessingJob(job.id, { status: "processing", progress: 50 });
+      await storage.addProcessingJobEvent({ jobId: job.id, level: "info", message: "Started" });
+
+      expect(events.map(event => event.type)).toEqual(["topic", "job", "job", "job_event"]);
+      expect(events[0]).toEqual({ type: "topic", topicId: topic.id, subject: "Physics" });
+      expect(events[2]).toMatchObject({ type: "job", job: { id: job.id, status: "processing", progress: 50 } });
+    } finally {
+      unsubscribe();
+    }
+  });
+});
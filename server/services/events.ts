@@ -0,0 +1,33 @@
+import { EventEmitter } from "events";
+import type { ProcessingJob, ProcessingJobEvent } from "@shared/schema";
+
+// Changes the browser is told about over GET /api/events
+export type AppEvent =
+  | { type: 'job'; job: ProcessingJob }
+  | { type: 'job_event'; event: ProcessingJobEvent }
+  | { type: 'document'; documentId: string; status: string }
+  | { type: 'topic'; topicId: string; subject: string }
+  | { type: 'question'; questionId: string; documentId: string | null; topicId: string | null };
+
+// In-process publish/subscribe for storage writes. Each open event stream is one subscriber.
+export class AppEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected browser tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: AppEvent): void {
+    this.emitter.emit('event', event);
+  }
+
+  subscribe(listener: (event: AppEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+}
+
+export const appEvents = new AppEventBus();
@@ -0,0 +1,127 @@
+import fs from "fs";
+import path from "path";
+import type { AiJsonRequest, AiProvider } from "./aiProvider";
+import type { ExtractedTopic } from "./openai";
+import { questionSegmenter, type QuestionSegment } from "./questionSegmenter";
+
+// Syllabus headings such as "1 Physical quantities", "1.2 Scalars and vectors" and
+// learning objectives such as "1.2.1 Distinguish between scalar and vector quantities"
+const MAIN_HEADING = /^(\d{1,2})\.?\s+([A-Z][^\d].{2,80})$/;
+const SUB_HEADING = /^(\d{1,2})\.(\d{1,2})\.?\s+([A-Za-z].{2,80})$/;
+const OBJECTIVE = /^(\d{1,2})\.(\d{1,2})\.(\d{1,2})\.?\s+(.{3,})$/;
+
+const DIAGRAM_HINT = /\b(diagram|fig\.?|figure|graph|circuit|shown)\b/i;
+
+// Answers from fixtures on disk, or derives a fixed answer from the request input. The same
+// request always produces the same response, so CI and offline machines can run the pipeline.
+export class FakeAiProvider implements AiProvider {
+  readonly name = 'fake';
+
+  constructor(private fixturesDir?: string) {}
+
+  async completeJson(request: AiJsonRequest): Promise<string> {
+    const fixture = this.readFixture(request.task);
+    if (fixture !== null) return fixture;
+
+    const input = (request.input || {}) as any;
+    switch (request.task) {
+      case 'syllabus-topics':
+        return JSON.stringify({ topics: this.topicsFromHeadings(input.syllabusContent || '') });
+      case 'question-categorization': {
+        const segments = questionSegmenter.segment(input.questionContent || '');
+        return JSON.stringify({
+          questions: segments.map(segment => ({
+            questionText: segment.text,
+            questionNumber: segment.questionNumber,
+            marks: segment.marks,
+            ...this.classify(segment, input.topics || [])
+          }))
+        });
+      }
+      case 'question-classification':
+        return JSON.stringify({
+          questions: (input.segments || []).map((segment: QuestionSegment) => ({
+            questionNumber: segment.questionNumber,
+            ...this.classify(segment, input.topics || [])
+          }))
+        });
+      case 'diagram-analysis':
+        return JSON.stringify({ hasVectorDiagram: false });
+      case 'question-metadata':
+        return JSON.stringify({});
+      default:
+        return '{}';
+    }
+  }
+
+  // <fixturesDir>/<task>.json replaces the derived answer for that task
+  private readFixture(task: string): string | null {
+    if (!this.fixturesDir) return null;
+    const fixturePath = path.join(this.fixturesDir, `${task}.json`);
+    return fs.existsSync(fixturePath) ? fs.readFileSync(fixturePath, 'utf8') : null;
+  }
+
+  private topicsFromHeadings(syllabusContent: string): ExtractedTopic[] {
+    const topics = new Map<string, ExtractedTopic>();
+
+    for (const rawLine of syllabusContent.split('\n')) {
+      const line = rawLine.trim();
+      const objective = line.match(OBJECTIVE);
+      if (objective) {
+        const subtopic = topics.get(objective[1])?.subtopics.find(s => s.code === `${objective[1]}.${objective[2]}`);
+        subtopic?.learningObjectives.push(objective[4].trim());
+        continue;
+      }
+
+      const sub = line.match(SUB_HEADING);
+      if (sub) {
+        const parent = topics.get(sub[1]);
+        const code = `${sub[1]}.${sub[2]}`;
+        if (parent && !parent.subtopics.some(s => s.code === code)) {
+          parent.subtopics.push({ name: sub[3].trim(), code, learningObjectives: [] });
+        }
+        continue;
+      }
+
+      const main = line.match(MAIN_HEADING);
+      if (main && !topics.has(main[1])) {
+        topics.set(main[1], { mainTopic: main[2].trim(), code: main[1], subtopics: [], description: `Syllabus section ${main[1]}` });
+      }
+    }
+
+    if (topics.size === 0) {
+      return [{ mainTopic: 'General', subtopics: [], description: 'All syllabus content' }];
+    }
+    return Array.from(topics.values());
+  }
+
+  // Picks the topic sharing the most words with the question; ties go to the first listed.
+  // The best other main topic with any shared words is reported as an additional topic.
+  private classify(segment: Pick<QuestionSegment, 'text' | 'marks'>, topics: ExtractedTopic[]) {
+    const words = new Set(segment.text.toLowerCase().match(/[a-z]{4,}/g) || []);
+    const overlap = (name: string) => (name.toLowerCase().match(/[a-z]{4,}/g) || []).filter(word => words.has(word)).length;
+
+    const scored: Array<{ topicMatch: string; subtopicMatch?: string; score: number }> = [];
+    for (const topic of topics) {
+      const candidates = [undefined, ...topic.subtopics.map(s => s.name)];
+      for (const subtopic of candidates) {
+        scored.push({ topicMatch: topic.mainTopic, subtopicMatch: subtopic, score: overlap(topic.mainTopic) + (subtopic ? overlap(subtopic) : 0) });
+      }
+    }
+
+    const best = scored.reduce<typeof scored[number] | null>((top, entry) => !top || entry.score > top.score ? entry : top, null);
+    const runnerUp = scored
+      .filter(entry => best && entry.topicMatch !== best.topicMatch && entry.score > 0)
+      .reduce<typeof scored[number] | null>((top, entry) => !top || entry.score > top.score ? entry : top, null);
+
+    const marks = segment.marks || 0;
+    return {
+      topicMatch: best?.topicMatch || 'General',
+      subtopicMatch: best?.subtopicMatch,
+      confidence: best && best.score > 0 ? 0.9 : 0.3,
+      additionalTopics: runnerUp ? [{ topicMatch: runnerUp.topicMatch, subtopicMatch: runnerUp.subtopicMatch, confidence: 0.5 }] : [],
+      difficulty: marks <= 2 ? 'easy' : marks <= 5 ? 'medium' : 'hard',
+      hasVectorDiagram: DIAGRAM_HINT.test(segment.text)
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+export interface StoredFile {
+  sha256: string;
+  path: string;
+}
+
+// Keeps uploaded source PDFs for as long as their documents exist, named by the SHA-256
+// of their contents under <root>/<first two hex digits>/<sha256>.pdf. Identical uploads
+// share one file, and a file is only removed once no document refers to it.
+export class FileStore {
+  constructor(readonly root: string) {}
+
+  async hash(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  pathFor(sha256: string): string {
+    return path.join(this.root, sha256.slice(0, 2), `${sha256}.pdf`);
+  }
+
+  contains(filePath: string): boolean {
+    const relative = path.relative(this.root, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  // Moves a file into the store; the source is removed either way
+  async put(sourcePath: string, sha256?: string): Promise<StoredFile> {
+    const digest = sha256 || await this.hash(sourcePath);
+    const storedPath = this.pathFor(digest);
+
+    if (fs.existsSync(storedPath)) {
+      await fs.promises.unlink(sourcePath).catch(() => {});
+      return { sha256: digest, path: storedPath };
+    }
+
+    await fs.promises.mkdir(path.dirname(storedPath), { recursive: true });
+    try {
+      await fs.promises.rename(sourcePath, storedPath);
+    } catch (error: any) {
+      // The store may be on another volume than the upload directory
+      if (error?.code !== 'EXDEV') throw error;
+      await fs.promises.copyFile(sourcePath, storedPath);
+      await fs.promises.unlink(sourcePath);
+    }
+    return { sha256: digest, path: storedPath };
+  }
+
+  async remove(sha256: string): Promise<void> {
+    await fs.promises.unlink(this.pathFor(sha256)).catch(() => {
+      // Already gone
+    });
+  }
+}
+
+// FILE_STORE_ROOT moves the store, e.g. onto a persistent volume
+export const fileStore = new FileStore(process.env.FILE_STORE_ROOT || path.join('uploads', 'files'));
@@ -0,0 +1,175 @@
+import os from "os";
+import { spawnSync } from "child_process";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertProcessingJob } from "@shared/schema";
+import type { MemStorage } from "../storage";
+import { JobQueue, workerExited, type JobQueueOptions } from "./jobQueue";
+
+// Each test runs against its own in-memory storage
+const memory = vi.hoisted(() => ({ storage: null as unknown as MemStorage }));
+
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  return {
+    ...actual,
+    get storage() {
+      return memory.storage;
+    },
+  };
+});
+
+const options: JobQueueOptions = { concurrency: 1, leaseMs: 60000, pollIntervalMs: 5, maxAttempts: 3, retryBaseMs: 5 };
+
+let queue: JobQueue;
+
+beforeEach(async () => {
+  const { MemStorage } = await import("../storage");
+  memory.storage = new MemStorage();
+  queue = new JobQueue(options);
+});
+
+afterEach(() => {
+  queue.stop();
+});
+
+async function waitForStatus(jobId: string, status: string) {
+  await vi.waitFor(async () => {
+    expect((await memory.storage.getProcessingJob(jobId))?.status).toBe(status);
+  });
+  return (await memory.storage.getProcessingJob(jobId))!;
+}
+
+async function eventMessages(jobId: string) {
+  return (await memory.storage.getProcessingJobEvents(jobId)).map(event => `${event.level}: ${event.message}`);
+}
+
+describe("JobQueue retries", () => {
+  it("retries a failed attempt and saves the fields the handler returns", async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error("AI timed out"))
+      .mockResolvedValueOnce({ result: { questions: 4 }, statusMessage: "Done" });
+    queue.register("document_processing", handler, "Processing failed");
+    await queue.start();
+
+    const job = await queue.enqueue("document_processing", { documentId: "doc-1" });
+    const finished = await waitForStatus(job.id, "completed");
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(finished).toMatchObject({ attempts: 2, progress: 100, error: null, result: { questions: 4 }, leaseOwner: null });
+    expect(await eventMessages(job.id)).toEqual([
+      "info: Attempt 1 of 3 started",
+      "warning: Attempt 1 failed: AI timed out. Retrying in 0s",
+      "info: Attempt 2 of 3 started",
+      "info: Done",
+    ]);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const handler = vi.fn().mockRejectedValue(new Error("Corrupt PDF"));
+    queue.register("document_processing", handler, "Processing failed");
+    await queue.start();
+
+    const job = await queue.enqueue("document_processing", { documentId: "doc-1" }, { maxAttempts: 2 });
+    const failed = await waitForStatus(job.id, "error");
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(failed).toMatchObject({ error: "Corrupt PDF", statusMessage: "Processing failed", attempts: 2 });
+    expect((await eventMessages(job.id)).at(-1)).toBe("error: Attempt 2 failed: Corrupt PDF. Giving up");
+  });
+
+  it("stops a job that took its worker down on every attempt without running it again", async () => {
+    const handler = vi.fn();
+    queue.register("document_processing", handler, "Processing failed");
+    const job = await memory.storage.createProcessingJob({
+      type: "document_processing",
+      status: "processing",
+      payload: { documentId: "doc-1" },
+      attempts: 3,
+      maxAttempts: 3,
+      leaseOwner: "crashed-host:1:abcd1234",
+      leaseExpiresAt: new Date(Date.now() - 1000),
+    });
+
+    await queue.start();
+    const failed = await waitForStatus(job.id, "error");
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(failed.error).toBe("Stopped after 3 attempts");
+  });
+});
+
+describe("JobQueue leases", () => {
+  it("aborts the handler once another worker holds the lease", async () => {
+    queue = new JobQueue({ ...options, leaseMs: 30 });
+    let aborted = false;
+    queue.register("document_processing", (_job, signal) => new Promise(resolve => {
+      signal.addEventListener("abort", () => {
+        aborted = true;
+        resolve({ statusMessage: "Should not be saved" });
+      });
+    }), "Processing failed");
+
+    const job = await queue.enqueue("document_processing", { documentId: "doc-1" });
+    await waitForStatus(job.id, "processing");
+    await memory.storage.updateProcessingJob(job.id, { leaseOwner: "other-host:1:abcd1234" });
+
+    await vi.waitFor(() => expect(aborted).toBe(true));
+    expect(await memory.storage.getProcessingJob(job.id)).toMatchObject({ status: "processing", leaseOwner: "other-host:1:abcd1234" });
+  });
+
+  it("does not run a job twice when its lease runs out while this worker is still running it", async () => {
+    queue = new JobQueue({ ...options, concurrency: 2 });
+    let finish = () => {};
+    const handler = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    queue.register("document_processing", handler, "Processing failed");
+    await queue.start();
+
+    const job = await queue.enqueue("document_processing", { documentId: "doc-1" });
+    await waitForStatus(job.id, "processing");
+    // As if the heartbeat had been held up past the lease
+    await memory.storage.updateProcessingJob(job.id, { leaseExpiresAt: new Date(Date.now() - 1000) });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    finish();
+    expect(await waitForStatus(job.id, "completed")).toMatchObject({ attempts: 1 });
+  });
+
+  it("reclaims jobs of exited or expired workers at start and leaves live ones alone", async () => {
+    queue.register("document_processing", async () => ({ statusMessage: "Done" }), "Processing failed");
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    const future = new Date(Date.now() + 60000);
+    const create = (leaseOwner: string | null, leaseExpiresAt: Date | null, payload: InsertProcessingJob["payload"] = { documentId: "doc-1" }) =>
+      memory.storage.createProcessingJob({ type: "document_processing", status: "processing", attempts: 1, payload, leaseOwner, leaseExpiresAt });
+
+    const exited = await create(`${os.hostname()}:${deadPid}:abcd1234`, future);
+    const expired = await create("other-host:1:abcd1234", new Date(Date.now() - 1000));
+    const live = await create(`${os.hostname()}:${process.ppid}:abcd1234`, future);
+    const otherHost = await create("other-host:1:abcd1234", future);
+    const legacy = await create(null, null, null);
+
+    await queue.start();
+    await waitForStatus(exited.id, "completed");
+    await waitForStatus(expired.id, "completed");
+
+    expect((await eventMessages(exited.id))[0]).toBe("warning: Interrupted by a server restart, queued to run again");
+    expect(await memory.storage.getProcessingJob(live.id)).toMatchObject({ status: "processing", leaseOwner: live.leaseOwner });
+    expect(await memory.storage.getProcessingJob(otherHost.id)).toMatchObject({ status: "processing", leaseOwner: otherHost.leaseOwner });
+    expect(await memory.storage.getProcessingJob(legacy.id)).toMatchObject({ status: "error", statusMessage: "Interrupted by a server restart" });
+  });
+});
+
+describe("workerExited", () => {
+  it("only reports workers on this host whose process is gone", () => {
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+
+    expect(workerExited(`${os.hostname()}:${deadPid}:abcd1234`)).toBe(true);
+    expect(workerExited(`${os.hostname()}:${process.ppid}:abcd1234`)).toBe(false);
+    expect(workerExited(`other-host:${deadPid}:abcd1234`)).toBe(false);
+    expect(workerExited("not-a-worker-id")).toBe(false);
+  });
+
+  it("reports an earlier worker that had this process's pid", () => {
+    expect(workerExited(`${os.hostname()}:${process.pid}:abcd1234`)).toBe(true);
+  });
+});
@@ -0,0 +1,266 @@
+import os from "os";
+import { randomUUID } from "crypto";
+import type { InsertProcessingJob, InsertProcessingJobEvent, ProcessingJob } from "@shared/schema";
+import { storage } from "../storage";
+
+export type JobType = 'document_processing' | 'syllabus_analysis' | 'question_extraction' | 'pdf_generation' | 'archive_import';
+
+export type JobEventLevel = 'info' | 'warning' | 'error';
+
+// Runs one attempt of a job. Throwing schedules a retry; the returned fields are saved
+// along with the completed status. The signal aborts when the job is cancelled, and
+// handlers check it between steps.
+export type JobHandler = (job: ProcessingJob, signal: AbortSignal) => Promise<Partial<ProcessingJob> | void>;
+
+export interface JobQueueOptions {
+  concurrency: number; // jobs run at once by this worker
+  leaseMs: number; // how long a job stays claimed without a heartbeat
+  pollIntervalMs: number;
+  maxAttempts: number;
+  retryBaseMs: number; // first retry delay, doubled for each later attempt
+}
+
+export interface EnqueueOptions {
+  documentIds?: string[];
+  statusMessage?: string;
+  maxAttempts?: number;
+}
+
+export interface JobEventDetails {
+  documentId?: string;
+  data?: InsertProcessingJobEvent['data'];
+}
+
+interface JobRegistration {
+  handler: JobHandler;
+  failureMessage: string;
+}
+
+// Background jobs queued in the processing_jobs table. Workers lease a job before running
+// it and renew the lease while it runs, so a job whose worker died (server restart, crash)
+// is picked up again once its lease runs out.
+export class JobQueue {
+  readonly workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private handlers = new Map<string, JobRegistration>();
+  private running = new Map<string, AbortController>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(private options: JobQueueOptions) {}
+
+  register(type: JobType, handler: JobHandler, failureMessage: string): void {
+    this.handlers.set(type, { handler, failureMessage });
+  }
+
+  async enqueue(type: JobType, payload: InsertProcessingJob['payload'], options: EnqueueOptions = {}): Promise<ProcessingJob> {
+    const job = await storage.createProcessingJob({
+      type,
+      status: 'pending',
+      progress: 0,
+      statusMessage: options.statusMessage || 'Waiting to start...',
+      documentIds: options.documentIds,
+      payload,
+      maxAttempts: options.maxAttempts ?? this.options.maxAttempts
+    });
+
+    void this.poll();
+    return job;
+  }
+
+  async start(): Promise<void> {
+    await this.recoverInterruptedJobs();
+    this.timer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+    console.log(`⚙️ Job queue started: worker ${this.workerId}, concurrency ${this.options.concurrency}`);
+    await this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // A job running on another worker stops when that worker's next heartbeat finds it cancelled
+  async cancel(jobId: string): Promise<void> {
+    await storage.updateProcessingJob(jobId, {
+      status: 'cancelled',
+      statusMessage: 'Cancelled',
+      leaseOwner: null,
+      leaseExpiresAt: null
+    });
+    this.running.get(jobId)?.abort();
+    await this.log(jobId, 'warning', 'Cancelled');
+    console.log(`⏹️ Cancelled job ${jobId}`);
+  }
+
+  // Appends to the job's event log. A failed write is reported but never fails the job.
+  async log(jobId: string, level: JobEventLevel, message: string, details: JobEventDetails = {}): Promise<void> {
+    try {
+      await storage.addProcessingJobEvent({ jobId, level, message, ...details });
+    } catch (error) {
+      console.error(`❌ Failed to log event for job ${jobId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Jobs whose worker is gone don't need to wait for the next claim: those with an expired
+  // lease, and those leased by a process on this host that has since exited. Jobs left
+  // 'processing' without a lease were started before the queue existed and have no
+  // recorded input to run again from.
+  private async recoverInterruptedJobs(): Promise<void> {
+    const now = Date.now();
+    const interrupted = (await storage.getActiveProcessingJobs()).filter(job =>
+      job.status === 'processing' && (
+        !job.leaseOwner ||
+        (job.leaseOwner !== this.workerId && (
+          (job.leaseExpiresAt !== null && job.leaseExpiresAt.getTime() <= now) || workerExited(job.leaseOwner)
+        ))
+      )
+    );
+
+    for (const job of interrupted) {
+      if (job.payload) {
+        console.log(`♻️ Resuming interrupted ${job.type} job ${job.id}`);
+        await storage.updateProcessingJob(job.id, {
+          status: 'pending',
+          statusMessage: 'Resuming after a server restart...',
+          runAfter: new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null
+        });
+        await this.log(job.id, 'warning', 'Interrupted by a server restart, queued to run again');
+      } else {
+        console.warn(`⚠️ Cannot resume ${job.type} job ${job.id}: it has no recorded input`);
+        await storage.updateProcessingJob(job.id, {
+          status: 'error',
+          statusMessage: 'Interrupted by a server restart',
+          error: 'The server restarted while this job was running. Start it again.'
+        });
+        await this.log(job.id, 'error', 'Interrupted by a server restart and cannot be resumed');
+      }
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.running.size < this.options.concurrency) {
+        // A job whose lease ran out while this worker was still busy with it stays with its first run
+        const job = await storage.claimProcessingJob(this.workerId, this.options.leaseMs, Array.from(this.running.keys()));
+        if (!job) break;
+
+        const controller = new AbortController();
+        this.running.set(job.id, controller);
+        this.run(job, controller)
+          .catch(error => console.error(`❌ Failed to record the outcome of job ${job.id}:`, error))
+          .finally(() => {
+            this.running.delete(job.id);
+            void this.poll();
+          });
+      }
+    } catch (error) {
+      console.error(`❌ Job queue poll failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: ProcessingJob, controller: AbortController): Promise<void> {
+    const registration = this.handlers.get(job.type);
+    if (!registration) {
+      await this.finish(job, { status: 'error', error: `No handler for ${job.type} jobs`, statusMessage: 'Processing failed' });
+      return;
+    }
+
+    // A job that keeps taking its worker down is reclaimed after every crash
+    if (job.attempts > job.maxAttempts) {
+      await this.finish(job, {
+        status: 'error',
+        error: job.error || `Stopped after ${job.maxAttempts} attempts`,
+        statusMessage: registration.failureMessage
+      });
+      await this.log(job.id, 'error', `Stopped after ${job.maxAttempts} attempts`);
+      return;
+    }
+
+    // The lease is lost when the job is cancelled or another worker took it over
+    const heartbeat = setInterval(async () => {
+      const renewed = await storage.renewProcessingJobLease(job.id, this.workerId, this.options.leaseMs).catch(() => false);
+      if (!renewed && !controller.signal.aborted) {
+        console.warn(`⚠️ Lost the lease on job ${job.id}, stopping it`);
+        controller.abort();
+      }
+    }, Math.floor(this.options.leaseMs / 3));
+
+    try {
+      console.log(`▶️ Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+      await this.log(job.id, 'info', `Attempt ${job.attempts} of ${job.maxAttempts} started`);
+      const result = await registration.handler(job, controller.signal);
+      if (controller.signal.aborted) return;
+      await this.finish(job, { status: 'completed', progress: 100, error: null, ...result });
+      await this.log(job.id, 'info', result?.statusMessage || 'Completed');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ ${job.type} job ${job.id} failed on attempt ${job.attempts}: ${message}`);
+
+      if (job.attempts < job.maxAttempts) {
+        const delay = this.options.retryBaseMs * 2 ** (job.attempts - 1);
+        await this.finish(job, {
+          status: 'pending',
+          error: message,
+          statusMessage: `${registration.failureMessage}; retrying in ${Math.round(delay / 1000)}s (attempt ${job.attempts + 1} of ${job.maxAttempts})`,
+          runAfter: new Date(Date.now() + delay)
+        });
+        await this.log(job.id, 'warning', `Attempt ${job.attempts} failed: ${message}. Retrying in ${Math.round(delay / 1000)}s`);
+      } else {
+        await this.finish(job, { status: 'error', error: message, statusMessage: registration.failureMessage });
+        await this.log(job.id, 'error', `Attempt ${job.attempts} failed: ${message}. Giving up`);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async finish(job: ProcessingJob, updates: Partial<ProcessingJob>): Promise<void> {
+    await storage.updateProcessingJob(job.id, { ...updates, leaseOwner: null, leaseExpiresAt: null });
+  }
+}
+
+function numberSetting(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Whether a worker id (hostname:pid:suffix) belongs to a process on this host that is no
+// longer running. Workers on other hosts, or whose process may still be alive, are not.
+export function workerExited(workerId: string): boolean {
+  const parts = workerId.split(':');
+  if (parts.length < 3) return false;
+  parts.pop();
+  const pid = Number(parts.pop());
+  if (parts.join(':') !== os.hostname() || !Number.isInteger(pid) || pid <= 0) return false;
+
+  // Two live processes can't share a pid, so a different worker with ours ran before a restart
+  if (pid === process.pid) return true;
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (error: any) {
+    return error?.code === 'ESRCH';
+  }
+}
+
+// JOB_CONCURRENCY, JOB_LEASE_MS, JOB_POLL_INTERVAL_MS, JOB_MAX_ATTEMPTS and JOB_RETRY_BASE_MS tune the queue
+export function jobQueueOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): JobQueueOptions {
+  return {
+    concurrency: numberSetting(env.JOB_CONCURRENCY, 2),
+    leaseMs: numberSetting(env.JOB_LEASE_MS, 60000),
+    pollIntervalMs: numberSetting(env.JOB_POLL_INTERVAL_MS, 2000),
+    maxAttempts: numberSetting(env.JOB_MAX_ATTEMPTS, 3),
+    retryBaseMs: numberSetting(env.JOB_RETRY_BASE_MS, 10000)
+  };
+}
+
+export const jobQueue = new JobQueue(jobQueueOptionsFromEnv());
@@ -0,0 +1,107 @@
+import { MarkSchemeEntry, Question } from '@shared/schema';
+
+export interface ParsedMarkSchemeEntry {
+  questionNumber: string;
+  answerText: string;
+  marks?: number;
+}
+
+// Boilerplate repeated on every page of a Cambridge marking scheme
+const BOILERPLATE_PATTERNS = [
+  /Question\s+Answer\s+Marks(\s+Guidance)?/gi,
+  /©\s*UCLES\s*\d{4}/gi,
+  /Page\s+\d+\s+of\s+\d+/gi,
+  /\bPUBLISHED\b/g,
+];
+
+// A question label such as "4", "4(b)" or "4 (b) (ii)" followed by whitespace, but not a
+// quantity like "3 marks" or "10 N" (single letters A-D are left alone for multiple choice keys)
+const QUESTION_LABEL = /(?:^|\s)(\d{1,2})((?:\s?\([a-z]{1,4}\)){0,3})(?=\s)(?!\s+(?:marks?|N|m|s|kg|g|J|kJ|W|V|Ω|Hz|Pa|cm|mm|km|°C|K|%)(?:\s|$|[.,;)\/]))/g;
+
+// Cambridge marking codes: B1, M1, A1, C1
+const MARK_CODE = /\b[BMAC](\d)\b/g;
+
+export class MarkSchemeProcessor {
+  parseEntries(text: string): ParsedMarkSchemeEntry[] {
+    let cleaned = text;
+    for (const pattern of BOILERPLATE_PATTERNS) {
+      cleaned = cleaned.replace(pattern, ' ');
+    }
+
+    const labels = this.findQuestionLabels(cleaned);
+    const entries: ParsedMarkSchemeEntry[] = [];
+
+    labels.forEach((label, index) => {
+      const end = index + 1 < labels.length ? labels[index + 1].start : cleaned.length;
+      const answerText = cleaned.slice(label.end, end).replace(/\s+/g, ' ').trim();
+      if (!answerText) return;
+
+      entries.push({
+        questionNumber: label.questionNumber,
+        answerText,
+        marks: this.countMarks(answerText),
+      });
+    });
+
+    console.log(`📑 Parsed ${entries.length} marking scheme entries`);
+    return entries;
+  }
+
+  // Entries that answer the given question, including all sub-parts of a whole question
+  matchEntriesToQuestion(entries: MarkSchemeEntry[], question: Question): MarkSchemeEntry[] {
+    if (!question.questionNumber) return [];
+    const questionNumber = this.normalizeQuestionNumber(question.questionNumber);
+
+    return entries.filter(entry => {
+      const entryNumber = this.normalizeQuestionNumber(entry.questionNumber);
+      return entryNumber === questionNumber
+        || entryNumber.startsWith(`${questionNumber}(`)
+        || questionNumber.startsWith(`${entryNumber}(`);
+    });
+  }
+
+  normalizeQuestionNumber(questionNumber: string): string {
+    return questionNumber
+      .toLowerCase()
+      .replace(/^(question|q)\s*/, '')
+      .replace(/\s+/g, '')
+      .replace(/\.$/, '');
+  }
+
+  // Question numbers only ever stay the same (new sub-part) or go up by one, which
+  // filters out numbers that appear inside answers such as "10 N" or "2 marks"
+  private findQuestionLabels(text: string): Array<{ questionNumber: string; start: number; end: number }> {
+    const labels: Array<{ questionNumber: string; start: number; end: number }> = [];
+    let current = 0;
+
+    for (const match of Array.from(text.matchAll(QUESTION_LABEL))) {
+      const main = parseInt(match[1], 10);
+      const subparts = (match[2] || '').replace(/\s+/g, '');
+      const isNextQuestion = main === current + 1;
+      const isNextSubpart = main === current && subparts.length > 0;
+
+      if (!isNextQuestion && !isNextSubpart) continue;
+
+      const start = match.index! + (match[0].length - match[0].trimStart().length);
+      labels.push({ questionNumber: `${main}${subparts}`, start, end: match.index! + match[0].length });
+      current = main;
+    }
+
+    return labels;
+  }
+
+  private countMarks(answerText: string): number | undefined {
+    const codes = Array.from(answerText.matchAll(MARK_CODE));
+    if (codes.length > 0) {
+      return codes.reduce((sum, code) => sum + parseInt(code[1], 10), 0);
+    }
+
+    // Multiple choice keys are a single letter worth one mark
+    if (/^[A-D]$/.test(answerText)) return 1;
+
+    const trailing = answerText.match(/\b(\d{1,2})$/);
+    return trailing ? parseInt(trailing[1], 10) : undefined;
+  }
+}
+
+export const markSchemeProcessor = new MarkSchemeProcessor();
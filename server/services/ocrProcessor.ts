@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { createCanvas } from '@napi-rs/canvas';
+import { createWorker, OEM } from 'tesseract.js';
+
+// Pages are rendered at 3x (216 DPI), enough for exam print without exhausting memory
+const OCR_SCALE = 3;
+
+// Gzipped English model shipped by @tesseract.js-data/eng, so nothing is downloaded at runtime
+const ENGLISH_MODEL_PATH = path.join(
+  path.dirname(createRequire(import.meta.url).resolve('@tesseract.js-data/eng/package.json')),
+  '4.0.0'
+);
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: { // PDF points, measured from the top-left corner of the page
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+export interface OcrPage {
+  pageNumber: number;
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+  width: number; // PDF points
+  height: number;
+}
+
+// Runs entirely offline: pages are rasterised with pdf.js on a native canvas and read
+// by the tesseract wasm engine using the English model bundled in node_modules
+export class OcrProcessor {
+  async recognizePages(filePath: string, pageNumbers?: number[]): Promise<OcrPage[]> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const data = new Uint8Array(await fs.promises.readFile(filePath));
+    const pdf = await pdfjs.getDocument({ data, isEvalSupported: false, useSystemFonts: true }).promise;
+
+    const targets = pageNumbers && pageNumbers.length > 0
+      ? pageNumbers.filter(pageNumber => pageNumber >= 1 && pageNumber <= pdf.numPages)
+      : Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+
+    const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+      langPath: ENGLISH_MODEL_PATH,
+      gzip: true,
+      cacheMethod: 'none',
+    });
+
+    const pages: OcrPage[] = [];
+    try {
+      for (const pageNumber of targets) {
+        console.log(`🔎 OCR page ${pageNumber}/${pdf.numPages} of ${path.basename(filePath)}`);
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: OCR_SCALE });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        const context = canvas.getContext('2d');
+
+        // Scans are often transparent outside the image; OCR needs a white page
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvas: canvas as any, canvasContext: context as any, viewport }).promise;
+
+        const { data: result } = await worker.recognize(canvas.toBuffer('image/png'), {}, { blocks: true });
+        const words: OcrWord[] = [];
+        for (const block of result.blocks || []) {
+          for (const paragraph of block.paragraphs) {
+            for (const line of paragraph.lines) {
+              for (const word of line.words) {
+                if (!word.text.trim()) continue;
+                words.push({
+                  text: word.text,
+                  confidence: word.confidence,
+                  bbox: {
+                    x: word.bbox.x0 / OCR_SCALE,
+                    y: word.bbox.y0 / OCR_SCALE,
+                    width: (word.bbox.x1 - word.bbox.x0) / OCR_SCALE,
+                    height: (word.bbox.y1 - word.bbox.y0) / OCR_SCALE,
+                  },
+                });
+              }
+            }
+          }
+        }
+
+        pages.push({
+          pageNumber,
+          text: result.text,
+          confidence: result.confidence,
+          words,
+          width: viewport.width / OCR_SCALE,
+          height: viewport.height / OCR_SCALE,
+        });
+        page.cleanup();
+      }
+    } finally {
+      await worker.terminate();
+      await pdf.destroy();
+    }
+
+    return pages;
+  }
+}
+
+export const ocrProcessor = new OcrProcessor();
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AiReject } from "./aiResponse";
+import type { QuestionSegment } from "./questionSegmenter";
+import { classifyQuestionSegments } from "./openai";
+
+// Replies the AI gives, in order
+const ai = vi.hoisted(() => ({ replies: [] as string[] }));
+
+vi.mock("./aiProvider", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./aiProvider")>(),
+  getAiProvider: () => ({ name: "scripted", completeJson: async () => ai.replies.shift() ?? "{}" }),
+}));
+
+const segments: QuestionSegment[] = [
+  { questionNumber: "1", text: "1 Define speed. [1]", marks: 1, parts: [] },
+  { questionNumber: "2", text: "2 Define acceleration. [2]", marks: 2, parts: [] },
+  { questionNumber: "3", text: "3 State Newton's first law. [1]", marks: 1, parts: [] },
+];
+
+const classification = (questionNumber: string, difficulty = "easy") =>
+  ({ questionNumber, topicMatch: "Kinematics", difficulty, hasVectorDiagram: false });
+
+beforeEach(() => {
+  ai.replies = [];
+});
+
+describe("classifyQuestionSegments", () => {
+  it("keeps the segmenter's text and marks with the AI's classification", async () => {
+    ai.replies.push(JSON.stringify({ questions: segments.map(segment => classification(segment.questionNumber)) }));
+
+    const questions = await classifyQuestionSegments(segments, [], "physics");
+
+    expect(questions.map(q => [q.questionNumber, q.topicMatch, q.marks])).toEqual([
+      ["1", "Kinematics", 1],
+      ["2", "Kinematics", 2],
+      ["3", "Kinematics", 1],
+    ]);
+    expect(questions[1].questionText).toBe("2 Define acceleration. [2]");
+  });
+
+  it("files questions the AI leaves out or never gets right as unclassified, and reports them", async () => {
+    // Question 2 is missing and question 3 stays invalid through every repair
+    const reply = JSON.stringify({ questions: [classification("1"), classification("3", "impossible")] });
+    ai.replies.push(reply, JSON.stringify({ questions: [classification("3", "impossible")] }), JSON.stringify({ questions: [classification("3", "impossible")] }));
+    const rejects: AiReject[] = [];
+
+    const questions = await classifyQuestionSegments(segments, [], "physics", reject => rejects.push(reject));
+
+    expect(questions.map(q => [q.questionNumber, q.topicMatch])).toEqual([
+      ["1", "Kinematics"],
+      ["2", "Unclassified"],
+      ["3", "Unclassified"],
+    ]);
+    expect(questions[2]).toMatchObject({ questionText: "3 State Newton's first law. [1]", marks: 1, confidence: 0 });
+    expect(rejects.filter(reject => reject.errors.some(error => error.includes("not classified"))).map(reject => reject.item))
+      .toEqual([{ questionNumber: "2" }, { questionNumber: "3" }]);
+  });
+});
@@ -1,66 +1,137 @@
-import OpenAI from "openai";
+import { z } from "zod";
+import { requestValidatedItems, requestValidatedObject, type AiRejectHandler } from "./aiResponse";
+import type { QuestionSegment } from "./questionSegmenter";
+import { UNCLASSIFIED_TOPIC } from "./topicMatcher";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
+// Keeps each classification request well inside the model's context window
+const CLASSIFICATION_BATCH_CHARS = 12000;
+
+// Every AI response is checked against these before anything reaches storage
+const questionNumberSchema = z.union([z.string().trim().min(1), z.number().int().positive()]).transform(String);
+const optionalText = z.string().nullish().transform(value => value || undefined);
+const difficultySchema = z.enum(['easy', 'medium', 'hard']);
 
-export interface ExtractedTopic {
-  mainTopic: string;
-  subtopics: string[];
-  description: string;
+export interface ExtractedSubtopic {
+  name: string;
+  code?: string; // e.g. '4.2'
+  learningObjectives: string[];
 }
 
-export interface ExtractedQuestion {
-  questionText: string;
-  questionNumber: string;
-  topicMatch: string;
-  subtopicMatch?: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-  marks?: number;
-  hasVectorDiagram: boolean;
+// Subtopics given as bare names are accepted and read as having no code or objectives
+export const extractedSubtopicSchema: z.ZodType<ExtractedSubtopic, z.ZodTypeDef, unknown> = z.union([
+  z.string().trim().min(1).transform(name => ({ name, code: undefined, learningObjectives: [] as string[] })),
+  z.object({
+    name: z.string().trim().min(1),
+    code: optionalText,
+    learningObjectives: z.array(z.string().trim().min(1)).default([]),
+  }),
+]);
+
+export const extractedTopicSchema = z.object({
+  mainTopic: z.string().trim().min(1),
+  code: optionalText,
+  subtopics: z.array(extractedSubtopicSchema),
+  description: z.string(),
+});
+
+const confidenceSchema = z.number().min(0).max(1).nullish().transform(value => value ?? undefined);
+
+// Further topics a question also examines, beyond its main one
+const additionalTopicSchema = z.object({
+  topicMatch: z.string().trim().min(1),
+  subtopicMatch: optionalText,
+  confidence: confidenceSchema,
+});
+
+export const extractedQuestionSchema = z.object({
+  questionText: z.string().trim().min(1),
+  questionNumber: questionNumberSchema,
+  topicMatch: z.string().trim().min(1),
+  subtopicMatch: optionalText,
+  confidence: confidenceSchema,
+  additionalTopics: z.array(additionalTopicSchema).nullish().transform(value => value ?? []),
+  difficulty: difficultySchema,
+  marks: z.number().int().nonnegative().nullish().transform(value => value ?? undefined),
+  hasVectorDiagram: z.boolean(),
+});
+
+// Classification of an already segmented question: text and marks are not asked for
+const questionClassificationSchema = extractedQuestionSchema.pick({
+  questionNumber: true,
+  topicMatch: true,
+  subtopicMatch: true,
+  confidence: true,
+  additionalTopics: true,
+  difficulty: true,
+  hasVectorDiagram: true,
+});
+
+// Shared by both question prompts so the AI reports every topic a question touches
+const TOPIC_TAGGING_INSTRUCTIONS = `"topicMatch" and "subtopicMatch" name the question's main topic. If the question also examines other topics, list them in "additionalTopics". "confidence" is how sure you are of each topic, from 0 to 1.`;
+
+const diagramAnalysisSchema = z.object({
+  hasVectorDiagram: z.boolean(),
+  diagramType: optionalText,
+  description: optionalText,
+});
+
+export const questionMetadataSchema = z.object({
+  paperYear: z.union([z.string().regex(/^\d{4}$/), z.number().int().min(1900).max(2100)]).nullish().transform(value => value == null ? undefined : String(value)),
+  paperSession: optionalText.transform(value => value?.toLowerCase()),
+  questionNumber: questionNumberSchema.nullish().transform(value => value ?? undefined),
+  marks: z.number().int().nonnegative().nullish().transform(value => value ?? undefined),
+});
+
+export type ExtractedTopic = z.infer<typeof extractedTopicSchema>;
+export type ExtractedQuestion = z.infer<typeof extractedQuestionSchema>;
+export type QuestionMetadata = z.infer<typeof questionMetadataSchema>;
+
+// One line per main topic listing its subtopics, each with its syllabus number when known
+function formatTopicsContext(topics: ExtractedTopic[]): string {
+  const numbered = (name: string, code?: string) => code ? `${code} ${name}` : name;
+  return topics.map(t =>
+    `${numbered(t.mainTopic, t.code)}: ${t.subtopics.map(s => numbered(s.name, s.code)).join(', ')}`
+  ).join('\n');
 }
 
 export async function extractTopicsFromSyllabus(
   syllabusContent: string,
-  subject: string
+  subject: string,
+  onReject?: AiRejectHandler
 ): Promise<ExtractedTopic[]> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert in O-Level ${subject} curriculum analysis. Extract all main topics and their subtopics from the provided syllabus content.
+    return await requestValidatedItems({
+      task: 'syllabus-topics',
+      system: `You are an expert in O-Level ${subject} curriculum analysis. Extract all main topics and their subtopics from the provided syllabus content.
           
           Focus on identifying:
-          1. Major topic headings that group related concepts
-          2. All subtopics under each main topic
-          3. Clear, concise descriptions of topic coverage
+          1. Major topic headings that group related concepts, with the syllabus's own section number
+          2. All subtopics under each main topic, with their numbers
+          3. The learning objectives listed under each subtopic, as written in the syllabus
+          4. Clear, concise descriptions of topic coverage
           
           Return your response as valid JSON with this exact structure:
           {
             "topics": [
               {
-                "mainTopic": "Forces and Motion",
-                "subtopics": ["Velocity and Acceleration", "Newton's Laws", "Momentum"],
+                "mainTopic": "Motion, forces and energy",
+                "code": "1",
+                "subtopics": [
+                  {
+                    "name": "Motion",
+                    "code": "1.2",
+                    "learningObjectives": ["Define speed as distance travelled per unit time", "Sketch, plot and interpret distance-time and speed-time graphs"]
+                  }
+                ],
                 "description": "Study of how objects move and the forces that cause motion"
               }
             ]
           }
           
-          Extract ALL topics comprehensively from the syllabus. Ensure subtopics are specific learning objectives within each main topic.`
-        },
-        {
-          role: "user",
-          content: `Extract all topics and subtopics from this ${subject} O-level syllabus document:\n\n${syllabusContent}`
-        }
-      ],
-      response_format: { type: "json_object" }
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || '{"topics": []}');
-    return result.topics || [];
+          Extract ALL topics comprehensively from the syllabus. Use null for a code the syllabus does not print.`,
+      prompt: `Extract all topics and subtopics from this ${subject} O-level syllabus document:\n\n${syllabusContent}`,
+      input: { syllabusContent, subject }
+    }, 'topics', extractedTopicSchema, onReject);
   } catch (error) {
     console.error('Error extracting topics from syllabus:', error);
     throw new Error(`Failed to extract topics from syllabus: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -70,107 +141,144 @@ export async function extractTopicsFromSyllabus(
 export async function categorizeQuestions(
   questionContent: string,
   availableTopics: ExtractedTopic[],
-  subject: string
+  subject: string,
+  onReject?: AiRejectHandler
 ): Promise<ExtractedQuestion[]> {
   try {
-    const topicsContext = availableTopics.map(t => 
-      `${t.mainTopic}: ${t.subtopics.join(', ')}`
-    ).join('\n');
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert in O-Level ${subject} question analysis. Categorize questions from past papers according to the provided topics. For each question, determine the topic match, difficulty level, and whether it contains vector diagrams.`
-        },
-        {
-          role: "user",
-          content: `Analyze these O-Level ${subject} questions and categorize them according to these topics:\n\n${topicsContext}\n\nQuestions to analyze:\n${questionContent}\n\nExtract individual questions from the paper content. Look for question numbers (1, 2, 3, etc.) and the associated question text. Return a JSON object with "questions" array containing: [{"questionText": "string", "questionNumber": "string", "topicMatch": "string", "subtopicMatch": "string", "difficulty": "easy|medium|hard", "marks": number, "hasVectorDiagram": boolean}]`
-        }
-      ],
-      response_format: { type: "json_object" }
-    });
+    const topicsContext = formatTopicsContext(availableTopics);
+
+    const questions = await requestValidatedItems({
+      task: 'question-categorization',
+      system: `You are an expert in O-Level ${subject} question analysis. Categorize questions from past papers according to the provided topics. For each question, determine the topic match, difficulty level, and whether it contains vector diagrams.`,
+      prompt: `Analyze these O-Level ${subject} questions and categorize them according to these topics:\n\n${topicsContext}\n\nQuestions to analyze:\n${questionContent}\n\nExtract individual questions from the paper content. Look for question numbers (1, 2, 3, etc.) and the associated question text. ${TOPIC_TAGGING_INSTRUCTIONS} Return a JSON object with "questions" array containing: [{"questionText": "string", "questionNumber": "string", "topicMatch": "string", "subtopicMatch": "string", "confidence": number, "additionalTopics": [{"topicMatch": "string", "subtopicMatch": "string", "confidence": number}], "difficulty": "easy|medium|hard", "marks": number, "hasVectorDiagram": boolean}]`,
+      input: { questionContent, topics: availableTopics, subject }
+    }, 'questions', extractedQuestionSchema, onReject);
 
-    const result = JSON.parse(response.choices[0].message.content || '{"questions": []}');
-    console.log(`🤖 AI Response for question extraction: ${JSON.stringify(result).substring(0, 200)}...`);
-    return result.questions || [];
+    console.log(`🤖 AI Response for question extraction: ${JSON.stringify(questions).substring(0, 200)}...`);
+    return questions;
   } catch (error) {
     throw new Error(`Failed to categorize questions: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-export async function analyzeImageForDiagrams(base64Image: string): Promise<{
+// Classifies questions that have already been segmented. The AI only chooses a topic,
+// difficulty and diagram flag per question; text, numbering and marks come from the segmenter
+export async function classifyQuestionSegments(
+  segments: QuestionSegment[],
+  availableTopics: ExtractedTopic[],
+  subject: string,
+  onReject?: AiRejectHandler
+): Promise<ExtractedQuestion[]> {
+  const topicsContext = formatTopicsContext(availableTopics);
+
+  const batches: QuestionSegment[][] = [];
+  let batch: QuestionSegment[] = [];
+  let batchChars = 0;
+  for (const segment of segments) {
+    if (batch.length > 0 && batchChars + segment.text.length > CLASSIFICATION_BATCH_CHARS) {
+      batches.push(batch);
+      batch = [];
+      batchChars = 0;
+    }
+    batch.push(segment);
+    batchChars += segment.text.length;
+  }
+  if (batch.length > 0) batches.push(batch);
+
+  const questions: ExtractedQuestion[] = [];
+  try {
+    for (const [index, current] of Array.from(batches.entries())) {
+      const questionContent = current.map(segment =>
+        `### Question ${segment.questionNumber}\n${segment.text.substring(0, CLASSIFICATION_BATCH_CHARS)}`
+      ).join('\n\n');
+
+      const classifications = await requestValidatedItems({
+        task: 'question-classification',
+        temperature: 0,
+        system: `You are an expert in O-Level ${subject} question analysis. Categorize past paper questions according to the provided topics. Each question is already separated and numbered; do not split, merge or rewrite them.`,
+        prompt: `Categorize these O-Level ${subject} questions according to these topics:\n\n${topicsContext}\n\nQuestions:\n\n${questionContent}\n\n${TOPIC_TAGGING_INSTRUCTIONS} Return a JSON object with a "questions" array containing one entry per question: [{"questionNumber": "string", "topicMatch": "string", "subtopicMatch": "string", "confidence": number, "additionalTopics": [{"topicMatch": "string", "subtopicMatch": "string", "confidence": number}], "difficulty": "easy|medium|hard", "hasVectorDiagram": boolean}]`,
+        input: { segments: current, topics: availableTopics, subject }
+      }, 'questions', questionClassificationSchema, onReject);
+
+      console.log(`🤖 AI classified batch ${index + 1}/${batches.length}: ${JSON.stringify(classifications).substring(0, 200)}...`);
+
+      for (const classification of classifications) {
+        const segment = current.find(s => s.questionNumber === classification.questionNumber);
+        if (!segment) {
+          onReject?.({ task: 'question-classification', item: classification, errors: [`questionNumber: ${classification.questionNumber} is not one of the questions sent`] });
+          continue;
+        }
+
+        questions.push({
+          questionText: segment.text,
+          questionNumber: segment.questionNumber,
+          topicMatch: classification.topicMatch,
+          subtopicMatch: classification.subtopicMatch,
+          confidence: classification.confidence,
+          additionalTopics: classification.additionalTopics,
+          difficulty: classification.difficulty,
+          marks: segment.marks,
+          hasVectorDiagram: classification.hasVectorDiagram
+        });
+      }
+
+      // Questions the AI left out, or whose classification was rejected, are kept unclassified
+      for (const segment of current) {
+        if (classifications.some(classification => classification.questionNumber === segment.questionNumber)) continue;
+
+        onReject?.({ task: 'question-classification', item: { questionNumber: segment.questionNumber }, errors: [`question ${segment.questionNumber} was not classified; filed as ${UNCLASSIFIED_TOPIC}`] });
+        questions.push({
+          questionText: segment.text,
+          questionNumber: segment.questionNumber,
+          topicMatch: UNCLASSIFIED_TOPIC,
+          subtopicMatch: undefined,
+          confidence: 0,
+          additionalTopics: [],
+          difficulty: 'medium', // unknown; the middle of the scale
+          marks: segment.marks,
+          hasVectorDiagram: false
+        });
+      }
+    }
+
+    return questions;
+  } catch (error) {
+    throw new Error(`Failed to classify questions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function analyzeImageForDiagrams(base64Image: string, onReject?: AiRejectHandler): Promise<{
   hasVectorDiagram: boolean;
   diagramType?: string;
   description?: string;
 }> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: "Analyze this image to determine if it contains vector diagrams commonly found in O-Level science papers (physics force diagrams, electric field diagrams, etc.). Return JSON with hasVectorDiagram (boolean), diagramType (string), and description (string)."
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`
-              }
-            }
-          ]
-        }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 300
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    return {
-      hasVectorDiagram: result.hasVectorDiagram || false,
-      diagramType: result.diagramType,
-      description: result.description
-    };
+    const result = await requestValidatedObject({
+      task: 'diagram-analysis',
+      prompt: "Analyze this image to determine if it contains vector diagrams commonly found in O-Level science papers (physics force diagrams, electric field diagrams, etc.). Return JSON with hasVectorDiagram (boolean), diagramType (string), and description (string).",
+      image: base64Image,
+      maxTokens: 300
+    }, diagramAnalysisSchema, onReject);
+
+    return result || { hasVectorDiagram: false };
   } catch (error) {
     throw new Error(`Failed to analyze image for diagrams: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 export async function extractQuestionMetadata(
-  questionText: string
-): Promise<{
-  paperYear?: string;
-  paperSession?: string;
-  questionNumber?: string;
-  marks?: number;
-}> {
+  questionText: string,
+  onReject?: AiRejectHandler
+): Promise<QuestionMetadata> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "Extract metadata from O-Level past paper questions including year, session (June/November), question number, and marks allocation."
-        },
-        {
-          role: "user",
-          content: `Extract metadata from this question text: "${questionText}"\n\nReturn JSON with paperYear, paperSession, questionNumber, and marks fields.`
-        }
-      ],
-      response_format: { type: "json_object" }
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    return {
-      paperYear: result.paperYear,
-      paperSession: result.paperSession?.toLowerCase(),
-      questionNumber: result.questionNumber,
-      marks: result.marks ? parseInt(result.marks) : undefined
-    };
+    const result = await requestValidatedObject({
+      task: 'question-metadata',
+      system: "Extract metadata from O-Level past paper questions including year, session (June/November), question number, and marks allocation.",
+      prompt: `Extract metadata from this question text: "${questionText}"\n\nReturn JSON with paperYear, paperSession, questionNumber, and marks fields.`,
+      input: { questionText }
+    }, questionMetadataSchema, onReject);
+
+    return result || {};
   } catch (error) {
     console.error(`Failed to extract question metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
     return {};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { PaperIdentityParser } from "./paperIdentity";
+
+const parser = new PaperIdentityParser();
+
+describe("PaperIdentityParser", () => {
+  it("reads a question paper with component and variant", () => {
+    expect(parser.parse("5054_s19_qp_21.pdf")).toEqual({
+      syllabusCode: "5054",
+      year: 2019,
+      series: "summer",
+      component: 2,
+      variant: 1,
+      kind: "qp",
+    });
+  });
+
+  it("reads a paper without variants", () => {
+    expect(parser.parse("5054_w15_ms_2.pdf")).toMatchObject({ series: "winter", component: 2, variant: null, kind: "ms" });
+  });
+
+  it("reads series-wide documents without a component", () => {
+    expect(parser.parse("5054_m22_er.pdf")).toMatchObject({ year: 2022, series: "march", component: null, kind: "er" });
+  });
+
+  it("finds the code inside a longer file name, in any case", () => {
+    expect(parser.parse("Physics 5054_S19_QP_21 (1).pdf")).toMatchObject({ syllabusCode: "5054", series: "summer", kind: "qp" });
+  });
+
+  it("ignores file names that are not Cambridge paper codes", () => {
+    expect(parser.parse("physics-notes.pdf")).toBeNull();
+    expect(parser.parse("15054_s19_qp_21.pdf")).toBeNull();
+    expect(parser.parse("5054_s19_qp_213.pdf")).toBeNull();
+    expect(parser.parse("5054_a19_qp_21.pdf")).toBeNull();
+  });
+
+  it("gives a question paper and its marking scheme the same paper code", () => {
+    const questionPaper = parser.parse("5054_s19_qp_21.pdf")!;
+    const markingScheme = parser.parse("5054_s19_ms_21.pdf")!;
+
+    expect(parser.paperCode(questionPaper)).toBe("5054_s19_21");
+    expect(parser.paperCode(markingScheme)).toBe(parser.paperCode(questionPaper));
+  });
+
+  it("has no paper code for series-wide documents", () => {
+    expect(parser.paperCode(parser.parse("5054_s19_gt.pdf")!)).toBeNull();
+  });
+
+  it("pads single-digit years in the paper code", () => {
+    expect(parser.paperCode({ syllabusCode: "5054", year: 2005, series: "winter", component: 1, variant: null })).toBe("5054_w05_1");
+  });
+});
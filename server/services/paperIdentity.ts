@@ -0,0 +1,52 @@
+export type PaperSeries = 'march' | 'summer' | 'winter';
+
+// qp = question paper, ms = marking scheme, in = insert, er = examiner report, gt = grade thresholds
+export type PaperKind = 'qp' | 'ms' | 'in' | 'er' | 'gt';
+
+export interface PaperIdentity {
+  syllabusCode: string; // e.g. '5054'
+  year: number; // e.g. 2019
+  series: PaperSeries;
+  component: number | null; // paper number, e.g. 2 for paper 2
+  variant: number | null; // e.g. 1 for the first variant of paper 2
+  kind: PaperKind;
+}
+
+const SERIES_LETTERS: Record<string, PaperSeries> = {
+  m: 'march',
+  s: 'summer',
+  w: 'winter',
+};
+
+// Cambridge file names: <syllabus>_<series><yy>_<kind>[_<component><variant>], e.g.
+// 5054_s19_qp_21 (paper 2 variant 1), 5054_w15_ms_2 (paper 2, no variants) or 5054_s19_er.
+// A longer suffix such as 5054_s19_qp_213 is no paper code at all, not one without a component.
+const PAPER_FILENAME = /(?:^|[^\d])(\d{4})_([msw])(\d{2})_(qp|ms|in|er|gt)(?:_(\d)(\d)?)?(?!_?\d)/i;
+
+export class PaperIdentityParser {
+  parse(filename: string): PaperIdentity | null {
+    const match = filename.match(PAPER_FILENAME);
+    if (!match) return null;
+
+    return {
+      syllabusCode: match[1],
+      year: 2000 + parseInt(match[3], 10),
+      series: SERIES_LETTERS[match[2].toLowerCase()],
+      component: match[5] ? parseInt(match[5], 10) : null,
+      variant: match[6] ? parseInt(match[6], 10) : null,
+      kind: match[4].toLowerCase() as PaperKind,
+    };
+  }
+
+  // Shared by every document from one sitting of one paper: 5054_s19_qp_21 and
+  // 5054_s19_ms_21 both map to "5054_s19_21". Reports and thresholds cover the whole series.
+  paperCode(identity: Pick<PaperIdentity, 'syllabusCode' | 'year' | 'series' | 'component' | 'variant'>): string | null {
+    if (identity.component === null) return null;
+
+    const seriesLetter = identity.series.charAt(0);
+    const year = String(identity.year % 100).padStart(2, '0');
+    return `${identity.syllabusCode}_${seriesLetter}${year}_${identity.component}${identity.variant ?? ''}`;
+  }
+}
+
+export const paperIdentityParser = new PaperIdentityParser();
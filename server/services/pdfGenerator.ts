@@ -1,11 +1,10 @@
 import fs from 'fs';
 import path from 'path';
-import { Question, Topic } from '@shared/schema';
-
-// Note: In a real implementation, you would install and use:
-// - jsPDF for PDF generation
-// - html2canvas for rendering complex layouts
-// For this implementation, we'll create a simplified interface
+import { randomUUID } from 'crypto';
+import PDFDocument from 'pdfkit';
+import { PDFDocument as PDFLibDocument } from 'pdf-lib';
+import { MarkSchemeEntry, Question, Topic } from '@shared/schema';
+import type { QuestionRegion, QuestionSourceData } from './pdfProcessor';
 
 export interface PdfGenerationConfig {
   includeQuestionText: boolean;
@@ -19,11 +18,59 @@ export interface PdfGenerationConfig {
 export interface GeneratedPdfResult {
   filePath: string;
   filename: string;
-  fileSize: string;
+  fileSize: number; // bytes
   questionCount: number;
   diagramCount: number;
+  title: string;
+  subtitle: string;
+  questionIds: string[]; // the questions in the PDF, in page order
+}
+
+// Marking scheme entries keyed by question id, used when includeAnswerSchemes is on
+export type AnswerSchemeMap = Map<string, MarkSchemeEntry[]>;
+
+// A file in generated_pdfs/, as seen by the retention sweep
+export interface PdfFileInfo {
+  filePath: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+// Title block shown on the cover page and repeated in every page header
+interface PdfHeading {
+  title: string;
+  subtitle: string;
+}
+
+// Space reserved for a cropped source region; the region itself is drawn in once PDFKit is done
+interface RegionPlacement {
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  sourcePath: string;
+  region: QuestionRegion;
+}
+
+// Spacing and font sizes for the two layouts offered in OutputConfiguration
+interface LayoutMetrics {
+  bodyFontSize: number;
+  headingFontSize: number;
+  metaFontSize: number;
+  questionGap: number;
+  minQuestionSpace: number;
 }
 
+const LAYOUTS: Record<PdfGenerationConfig['layout'], LayoutMetrics> = {
+  standard: { bodyFontSize: 11, headingFontSize: 12, metaFontSize: 9, questionGap: 18, minQuestionSpace: 120 },
+  compact: { bodyFontSize: 9.5, headingFontSize: 10.5, metaFontSize: 8, questionGap: 10, minQuestionSpace: 80 },
+};
+
+const PAGE_MARGIN = 56;
+const HEADER_OFFSET = 28;
+const FOOTER_OFFSET = 32;
+
 export class PdfGenerator {
   private outputDir: string;
 
@@ -41,35 +88,61 @@ export class PdfGenerator {
   async generateTopicPdf(
     topic: Topic,
     questions: Question[],
-    config: PdfGenerationConfig
+    config: PdfGenerationConfig,
+    answers: AnswerSchemeMap = new Map()
+  ): Promise<GeneratedPdfResult> {
+    const heading: PdfHeading = {
+      title: `O-Level ${this.formatSubject(topic.subject)} - ${topic.mainTopic}`,
+      subtitle: topic.subtopic ? `Subtopic: ${topic.subtopic}` : 'All Subtopics',
+    };
+
+    return this.renderPdf(heading, questions, config, answers, this.generateFilename(topic.mainTopic));
+  }
+
+  async generatePdf(
+    questions: Question[],
+    config: PdfGenerationConfig,
+    title: string,
+    subtitle: string,
+    answers: AnswerSchemeMap = new Map()
+  ): Promise<GeneratedPdfResult> {
+    return this.renderPdf({ title, subtitle }, questions, config, answers, this.generateFilename(title));
+  }
+
+  private async renderPdf(
+    heading: PdfHeading,
+    questions: Question[],
+    config: PdfGenerationConfig,
+    answers: AnswerSchemeMap,
+    filename: string
   ): Promise<GeneratedPdfResult> {
     try {
       // Sort questions based on configuration
       const sortedQuestions = this.sortQuestions(questions, config.sortBy);
-      
+
       // Filter questions based on configuration
       const filteredQuestions = this.filterQuestions(sortedQuestions, config);
-      
-      // Generate filename
-      const filename = this.generateFilename(topic);
+
       const filePath = path.join(this.outputDir, filename);
-      
-      // Generate PDF content
-      const pdfContent = await this.generatePdfContent(topic, filteredQuestions, config);
-      
-      // Write PDF file (simulated)
-      await this.writePdfFile(filePath, pdfContent);
-      
+
+      // Lay out the document and write it to disk
+      const { doc, placements } = this.generatePdfContent(heading, filteredQuestions, config, answers);
+      await this.writePdfFile(filePath, doc);
+      await this.embedSourceRegions(filePath, placements);
+
       // Calculate statistics
       const diagramCount = filteredQuestions.filter(q => q.hasVectorDiagram).length;
-      const fileSize = await this.getFileSize(filePath);
-      
+      const { size: fileSize } = await fs.promises.stat(filePath);
+
       return {
         filePath,
         filename,
         fileSize,
         questionCount: filteredQuestions.length,
-        diagramCount
+        diagramCount,
+        title: heading.title,
+        subtitle: heading.subtitle,
+        questionIds: filteredQuestions.map(question => question.id)
       };
     } catch (error) {
       throw new Error(`Failed to generate PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -115,72 +188,331 @@ export class PdfGenerator {
     return filtered;
   }
 
-  private generateFilename(topic: Topic): string {
-    const sanitized = topic.mainTopic.replace(/[^a-zA-Z0-9]/g, '_');
+  // The random suffix keeps two PDFs made from the same title on the same day from sharing a file
+  private generateFilename(name: string): string {
+    const sanitized = name.replace(/[^a-zA-Z0-9]/g, '_');
     const timestamp = new Date().toISOString().split('T')[0];
-    return `${sanitized}_${timestamp}.pdf`;
+    return `${sanitized}_${timestamp}_${randomUUID().slice(0, 8)}.pdf`;
   }
 
-  private async generatePdfContent(
-    topic: Topic,
+  private formatSubject(subject?: string | null): string {
+    return subject ? subject.charAt(0).toUpperCase() + subject.slice(1) : 'Science';
+  }
+
+  private generatePdfContent(
+    heading: PdfHeading,
     questions: Question[],
-    config: PdfGenerationConfig
-  ): Promise<string> {
-    // In a real implementation, this would use jsPDF to create actual PDF content
-    // For now, we'll return a simulated PDF structure
-    
-    const header = `O-Level ${topic.subject?.toUpperCase()} - ${topic.mainTopic}`;
-    const subtitle = topic.subtopic ? `Subtopic: ${topic.subtopic}` : 'All Subtopics';
-    
-    let content = `PDF Document: ${header}\n`;
-    content += `${subtitle}\n`;
-    content += `Generated on: ${new Date().toLocaleDateString()}\n`;
-    content += `Total Questions: ${questions.length}\n\n`;
-    
+    config: PdfGenerationConfig,
+    answers: AnswerSchemeMap
+  ): { doc: PDFKit.PDFDocument; placements: RegionPlacement[] } {
+    const placements: RegionPlacement[] = [];
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true, // keep pages in memory so headers and page numbers can be stamped afterwards
+      info: {
+        Title: heading.title,
+        Subject: heading.subtitle,
+        Creator: 'O-Level AI Analyzer',
+      },
+    });
+
+    this.renderTitlePage(doc, heading, questions);
+
+    if (questions.length > 0) {
+      doc.addPage();
+      questions.forEach((question, index) => this.renderQuestion(doc, question, index, config, placements));
+
+      if (config.includeAnswerSchemes) {
+        this.renderAnswerSection(doc, questions, config, answers);
+      }
+    }
+
+    this.renderPageChrome(doc, heading);
+    return { doc, placements };
+  }
+
+  private renderTitlePage(doc: PDFKit.PDFDocument, heading: PdfHeading, questions: Question[]): void {
+    const totalMarks = questions.reduce((sum, q) => sum + (q.marks || 0), 0);
+    const diagramCount = questions.filter(q => q.hasVectorDiagram).length;
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+    doc.y = doc.page.height / 3;
+    doc.font('Helvetica-Bold').fontSize(24).fillColor('#0f172a')
+      .text(heading.title, { align: 'center', width: contentWidth });
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(14).fillColor('#475569')
+      .text(heading.subtitle, { align: 'center', width: contentWidth });
+    doc.moveDown(2);
+
+    const summary = [
+      `Questions: ${questions.length}`,
+      `Total marks: ${totalMarks}`,
+      `Questions with diagrams: ${diagramCount}`,
+      `Generated on: ${new Date().toLocaleDateString()}`,
+    ];
+    doc.fontSize(11).fillColor('#334155');
+    summary.forEach(line => doc.text(line, { align: 'center', width: contentWidth }));
+
+    if (questions.length === 0) {
+      doc.moveDown(2).fillColor('#b91c1c')
+        .text('No questions matched the selected output settings.', { align: 'center', width: contentWidth });
+    }
+  }
+
+  private renderQuestion(
+    doc: PDFKit.PDFDocument,
+    question: Question,
+    index: number,
+    config: PdfGenerationConfig,
+    placements: RegionPlacement[]
+  ): void {
+    const metrics = LAYOUTS[config.layout] || LAYOUTS.standard;
+    const left = PAGE_MARGIN;
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const bottomLimit = doc.page.height - PAGE_MARGIN;
+
+    // Keep the question heading together with the start of its text
+    if (doc.y + metrics.minQuestionSpace > bottomLimit) {
+      doc.addPage();
+    }
+
+    const headingY = doc.y;
+    const label = question.questionNumber
+      ? `Question ${index + 1} (Q${question.questionNumber})`
+      : `Question ${index + 1}`;
+    doc.font('Helvetica-Bold').fontSize(metrics.headingFontSize).fillColor('#0f172a')
+      .text(label, left, headingY, { width: contentWidth });
+
+    if (question.marks) {
+      doc.font('Helvetica').fontSize(metrics.metaFontSize).fillColor('#475569')
+        .text(`[${question.marks} mark${question.marks === 1 ? '' : 's'}]`, left, headingY, {
+          width: contentWidth,
+          align: 'right',
+        });
+    }
+    doc.moveDown(0.4);
+
+    // The original question region shows diagrams exactly as printed, so it replaces the typeset text
+    const sourceData = config.includeVectorDiagrams ? this.getSourceData(question) : null;
+    if (sourceData) {
+      this.reserveSourceRegions(doc, sourceData, placements);
+    } else if (config.includeQuestionText) {
+      doc.font('Helvetica').fontSize(metrics.bodyFontSize).fillColor('#111827')
+        .text(this.normalizeQuestionText(question.questionText), left, doc.y, {
+          width: contentWidth,
+          align: 'left',
+          lineGap: config.layout === 'compact' ? 1 : 3,
+        });
+    }
+
+    const details: string[] = [];
+    if (config.includeSourceInfo && question.paperYear) {
+      details.push(`Source: ${question.paperYear} ${question.paperSession || ''} Paper`.replace(/\s+/g, ' '));
+    }
+    if (question.difficulty) {
+      details.push(`Difficulty: ${question.difficulty}`);
+    }
+    if (question.hasVectorDiagram && config.includeVectorDiagrams && !sourceData) {
+      details.push('Refer to the diagram in the original paper');
+    }
+
+    if (details.length > 0) {
+      doc.moveDown(0.3);
+      doc.font('Helvetica-Oblique').fontSize(metrics.metaFontSize).fillColor('#64748b')
+        .text(details.join('  |  '), left, doc.y, { width: contentWidth });
+    }
+
+    doc.moveDown(0.5);
+    if (config.layout !== 'compact' && doc.y + metrics.questionGap < bottomLimit) {
+      doc.moveTo(left, doc.y).lineTo(left + contentWidth, doc.y)
+        .lineWidth(0.5).strokeColor('#cbd5e1').stroke();
+    }
+    doc.y += metrics.questionGap;
+  }
+
+  private getSourceData(question: Question): QuestionSourceData | null {
+    const sourceData = question.diagramData as QuestionSourceData | null;
+    if (!sourceData?.sourcePath || !Array.isArray(sourceData.regions) || sourceData.regions.length === 0) {
+      return null;
+    }
+    return fs.existsSync(sourceData.sourcePath) ? sourceData : null;
+  }
+
+  private reserveSourceRegions(
+    doc: PDFKit.PDFDocument,
+    sourceData: QuestionSourceData,
+    placements: RegionPlacement[]
+  ): void {
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const bottomLimit = doc.page.height - PAGE_MARGIN;
+    const maxHeight = bottomLimit - PAGE_MARGIN;
+
+    for (const region of sourceData.regions) {
+      let scale = Math.min(1, contentWidth / region.bbox.width);
+      if (region.bbox.height * scale > maxHeight) {
+        scale = maxHeight / region.bbox.height;
+      }
+      const width = region.bbox.width * scale;
+      const height = region.bbox.height * scale;
+
+      if (doc.y + height > bottomLimit) {
+        doc.addPage();
+      }
+
+      const range = doc.bufferedPageRange();
+      const x = PAGE_MARGIN + (contentWidth - width) / 2;
+      placements.push({
+        pageIndex: range.start + range.count - 1,
+        x,
+        y: doc.y,
+        width,
+        height,
+        sourcePath: sourceData.sourcePath,
+        region,
+      });
+
+      doc.rect(x, doc.y, width, height).lineWidth(0.5).strokeColor('#e2e8f0').stroke();
+      doc.y += height + 6;
+    }
+  }
+
+  private renderAnswerSection(
+    doc: PDFKit.PDFDocument,
+    questions: Question[],
+    config: PdfGenerationConfig,
+    answers: AnswerSchemeMap
+  ): void {
+    const metrics = LAYOUTS[config.layout] || LAYOUTS.standard;
+    const left = PAGE_MARGIN;
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const bottomLimit = doc.page.height - PAGE_MARGIN;
+
+    doc.addPage();
+    doc.font('Helvetica-Bold').fontSize(16).fillColor('#0f172a')
+      .text('Answers', left, doc.y, { width: contentWidth });
+    doc.moveDown(0.8);
+
     questions.forEach((question, index) => {
-      content += `Question ${index + 1}:\n`;
-      content += `${question.questionText}\n`;
-      
-      if (config.includeSourceInfo && question.paperYear) {
-        content += `Source: ${question.paperYear} ${question.paperSession || ''} Paper\n`;
+      if (doc.y + metrics.minQuestionSpace / 2 > bottomLimit) {
+        doc.addPage();
       }
-      
-      if (question.marks) {
-        content += `Marks: ${question.marks}\n`;
+
+      const label = question.questionNumber
+        ? `Question ${index + 1} (Q${question.questionNumber})`
+        : `Question ${index + 1}`;
+      doc.font('Helvetica-Bold').fontSize(metrics.headingFontSize).fillColor('#0f172a')
+        .text(label, left, doc.y, { width: contentWidth });
+      doc.moveDown(0.3);
+
+      const entries = answers.get(question.id) || [];
+      if (entries.length === 0) {
+        doc.font('Helvetica-Oblique').fontSize(metrics.metaFontSize).fillColor('#64748b')
+          .text('No marking scheme available for this question.', left, doc.y, { width: contentWidth });
       }
-      
-      if (question.hasVectorDiagram && config.includeVectorDiagrams) {
-        content += `[Vector Diagram Included]\n`;
+
+      for (const entry of entries) {
+        const marks = entry.marks ? `  [${entry.marks}]` : '';
+        doc.font('Helvetica-Bold').fontSize(metrics.bodyFontSize).fillColor('#334155')
+          .text(`${entry.questionNumber}  `, left, doc.y, { width: contentWidth, continued: true })
+          .font('Helvetica').fillColor('#111827')
+          .text(`${entry.answerText}${marks}`, { lineGap: config.layout === 'compact' ? 1 : 2 });
       }
-      
-      content += '\n---\n\n';
+
+      doc.y += metrics.questionGap;
     });
-    
-    return content;
   }
 
-  private async writePdfFile(filePath: string, content: string): Promise<void> {
-    // Create a proper PDF-like header for better download handling
-    const pdfHeader = '%PDF-1.4\n1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n';
-    const pdfContent = pdfHeader + content;
-    await fs.promises.writeFile(filePath, pdfContent, 'utf8');
+  // Stamps the running header and "Page x of y" footer on every buffered page
+  private renderPageChrome(doc: PDFKit.PDFDocument, heading: PdfHeading): void {
+    const range = doc.bufferedPageRange();
+    const total = range.count;
+
+    for (let i = range.start; i < range.start + total; i++) {
+      doc.switchToPage(i);
+
+      // Writing inside the margins would otherwise trigger an automatic page break
+      const originalMargins = { ...doc.page.margins };
+      doc.page.margins = { top: 0, bottom: 0, left: 0, right: 0 };
+      const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+      if (i > range.start) {
+        doc.font('Helvetica').fontSize(8).fillColor('#64748b')
+          .text(heading.title, PAGE_MARGIN, HEADER_OFFSET, { width: contentWidth, align: 'left', lineBreak: false })
+          .text(heading.subtitle, PAGE_MARGIN, HEADER_OFFSET, { width: contentWidth, align: 'right', lineBreak: false });
+        doc.moveTo(PAGE_MARGIN, HEADER_OFFSET + 12).lineTo(PAGE_MARGIN + contentWidth, HEADER_OFFSET + 12)
+          .lineWidth(0.5).strokeColor('#e2e8f0').stroke();
+      }
+
+      doc.font('Helvetica').fontSize(8).fillColor('#64748b')
+        .text(`Page ${i - range.start + 1} of ${total}`, PAGE_MARGIN, doc.page.height - FOOTER_OFFSET, {
+          width: contentWidth,
+          align: 'center',
+          lineBreak: false,
+        });
+
+      doc.page.margins = originalMargins;
+    }
+  }
+
+  // Extracted text often carries layout whitespace; keep paragraph breaks but collapse the rest
+  private normalizeQuestionText(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
   }
 
-  private async getFileSize(filePath: string): Promise<string> {
-    try {
-      const stats = await fs.promises.stat(filePath);
-      const sizeInBytes = stats.size;
-      
-      if (sizeInBytes < 1024) {
-        return `${sizeInBytes} B`;
-      } else if (sizeInBytes < 1024 * 1024) {
-        return `${(sizeInBytes / 1024).toFixed(1)} KB`;
-      } else {
-        return `${(sizeInBytes / (1024 * 1024)).toFixed(1)} MB`;
+  private async writePdfFile(filePath: string, doc: PDFKit.PDFDocument): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const stream = fs.createWriteStream(filePath);
+      stream.on('finish', () => resolve());
+      stream.on('error', reject);
+      doc.on('error', reject);
+      doc.pipe(stream);
+      doc.end();
+    });
+  }
+
+  // Draws each reserved region as a vector crop of the source paper page
+  private async embedSourceRegions(filePath: string, placements: RegionPlacement[]): Promise<void> {
+    if (placements.length === 0) return;
+
+    const output = await PDFLibDocument.load(await fs.promises.readFile(filePath));
+    const sources = new Map<string, PDFLibDocument>();
+
+    for (const placement of placements) {
+      try {
+        let source = sources.get(placement.sourcePath);
+        if (!source) {
+          source = await PDFLibDocument.load(await fs.promises.readFile(placement.sourcePath), { ignoreEncryption: true });
+          sources.set(placement.sourcePath, source);
+        }
+
+        const sourcePage = source.getPage(placement.region.pageNumber - 1);
+        const sourceHeight = sourcePage.getHeight();
+        const { x, y, width, height } = placement.region.bbox;
+        const embedded = await output.embedPage(sourcePage, {
+          left: x,
+          right: x + width,
+          top: sourceHeight - y,
+          bottom: sourceHeight - y - height,
+        });
+
+        const page = output.getPage(placement.pageIndex);
+        page.drawPage(embedded, {
+          x: placement.x,
+          y: page.getHeight() - placement.y - placement.height,
+          width: placement.width,
+          height: placement.height,
+        });
+      } catch (error) {
+        console.warn(`Failed to embed region from ${path.basename(placement.sourcePath)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
-    } catch (error) {
-      return 'Unknown';
     }
+
+    await fs.promises.writeFile(filePath, await output.save());
   }
 
   async deletePdf(filePath: string): Promise<void> {
@@ -191,6 +523,22 @@ export class PdfGenerator {
     }
   }
 
+  async listPdfFiles(): Promise<PdfFileInfo[]> {
+    const files: PdfFileInfo[] = [];
+    for (const name of await fs.promises.readdir(this.outputDir)) {
+      if (!name.toLowerCase().endsWith('.pdf')) continue;
+
+      const filePath = path.join(this.outputDir, name);
+      try {
+        const stats = await fs.promises.stat(filePath);
+        if (stats.isFile()) files.push({ filePath, size: stats.size, modifiedAt: stats.mtime });
+      } catch {
+        // Removed while listing
+      }
+    }
+    return files;
+  }
+
   async getPdfBuffer(filePath: string): Promise<Buffer> {
     try {
       return await fs.promises.readFile(filePath);
@@ -2,9 +2,67 @@ import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
 import PDFParser from 'pdf2json';
+import { ocrProcessor } from './ocrProcessor';
 
 const readFile = promisify(fs.readFile);
 
+// pdf2json reports positions in its own page units; one unit is 16 PDF points
+const UNIT_TO_POINTS = 16;
+
+// Page furniture that should never be treated as part of a question
+const PAGE_FURNITURE = /©\s*UCLES|\[Turn over|BLANK PAGE|^\d{4}\/\d{2}\/[A-Z]\/[A-Z]\/\d{2}$|^Page \d+ of \d+$/i;
+
+// Items whose tops are this close (in page units) sit on the same line
+const LINE_TOLERANCE = 0.3;
+
+// Horizontal gap (in page units) that separates table columns rather than words
+const COLUMN_GAP = 3;
+
+// Pages with fewer characters than this have no usable text layer and are sent to OCR
+const MIN_PAGE_TEXT = 20;
+
+// Fractions of the page height treated as the header and footer bands
+const HEADER_BAND = 0.08;
+const FOOTER_BAND = 0.9;
+
+export type ExtractionMode = 'layout' | 'flat';
+
+export interface ExtractionOptions {
+  // 'layout' rebuilds lines and blocks from text positions, 'flat' joins every run with spaces
+  mode?: ExtractionMode;
+  // Fall back to offline OCR for pages without a text layer (default true)
+  ocr?: boolean;
+}
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+}
+
+interface PositionedText {
+  x: number;
+  y: number;
+  endX: number;
+  text: string;
+}
+
+export interface QuestionRegion {
+  questionNumber: string; // main question number, e.g. "3"
+  pageNumber: number; // 1-based page in the source PDF
+  bbox: { // PDF points, measured from the top-left corner of the page
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+// Stored in questions.diagramData so the generator can crop the original question
+export interface QuestionSourceData {
+  sourcePath: string;
+  regions: QuestionRegion[];
+}
+
 export interface PdfProcessingResult {
   text: string;
   images: Array<{
@@ -21,91 +79,346 @@ export interface PdfProcessingResult {
     pageCount: number;
     fileSize: number;
     title?: string;
+    ocrPages?: number[]; // 1-based pages whose text came from OCR
   };
+  pages: PageText[];
+  questionRegions: QuestionRegion[];
 }
 
 export class PdfProcessor {
-  async extractContent(filePath: string): Promise<PdfProcessingResult> {
-    return new Promise((resolve, reject) => {
-      const pdfParser = new (PDFParser as any)(null, 1);
-      
-      pdfParser.on("pdfParser_dataError", (errData: any) => {
-        console.error(`❌ PDF parsing error for ${path.basename(filePath)}:`, errData.parserError);
-        
+  async extractContent(filePath: string, options: ExtractionOptions = {}): Promise<PdfProcessingResult> {
+    const mode = options.mode || 'layout';
+    const useOcr = options.ocr !== false;
+
+    let pdfData: any;
+    let ocrPages: number[] = [];
+    try {
+      pdfData = await this.parsePdf(filePath);
+    } catch (errData: any) {
+      console.error(`❌ PDF parsing error for ${path.basename(filePath)}:`, errData.parserError);
+
+      // pdf2json could not read the file at all; a scan may still be readable by OCR
+      const ocrData = useOcr ? await this.tryOcr(filePath) : null;
+      if (!ocrData) {
         // For corrupted or problematic PDFs, provide a helpful message instead of failing completely
         const fallbackText = `[PDF Processing Error - ${path.basename(filePath)}]
 
 This PDF file appears to have structural issues that prevent text extraction:
 - Error: ${errData.parserError}
 - This may be due to: corrupted file, non-standard PDF format, or image-only content
-- Consider re-uploading the file or using a different PDF version
+- Consider re-uploading the file or using a different PDF version`;
 
-To process this type of file, additional OCR capabilities would be needed.`;
-        
-        resolve({ text: fallbackText, images: [], metadata: { pageCount: 0, fileSize: 0 } });
-      });
+        return { text: fallbackText, images: [], metadata: { pageCount: 0, fileSize: 0 }, pages: [], questionRegions: [] };
+      }
+
+      pdfData = { Pages: ocrData.pages };
+      ocrPages = ocrData.ocrPages;
+    }
+
+    try {
+      console.log(`📄 Processing PDF: ${path.basename(filePath)}`);
+      console.log(`📊 PDF structure - Pages: ${pdfData.Pages?.length || 0}`);
+
+      // Pages without a text layer are scans; read them with OCR instead
+      const scannedPages = ocrPages.length > 0 ? [] : (pdfData.Pages || [])
+        .map((page: any, pageIndex: number) => ({ page, pageNumber: pageIndex + 1 }))
+        .filter(({ page }: any) => this.pageTextLength(page) < MIN_PAGE_TEXT)
+        .map(({ pageNumber }: any) => pageNumber);
+
+      if (useOcr && scannedPages.length > 0) {
+        const ocrData = await this.tryOcr(filePath, scannedPages);
+        ocrData?.pages.forEach((ocrPage, index) => {
+          pdfData.Pages[ocrData.ocrPages[index] - 1] = ocrPage;
+        });
+        ocrPages = ocrData?.ocrPages || [];
+      }
+
+      // Extract text from parsed PDF data
+      const pages = mode === 'layout'
+        ? this.extractLayoutPages(pdfData.Pages || [])
+        : this.extractFlatPages(pdfData.Pages || []);
+      let extractedText = mode === 'layout'
+        ? pages.map(page => page.text).filter(Boolean).join('\n\n').trim()
+        : pages.map(page => page.text).join(' ').replace(/\s+/g, ' ').trim();
+
+      console.log(`📝 Extracted text length: ${extractedText.length} characters`);
+      console.log(`📄 First 200 characters: ${extractedText.substring(0, 200)}`);
+
+      if (!extractedText || extractedText.length < 50) {
+        console.warn(`⚠️ Minimal or no text extracted from ${path.basename(filePath)}`);
+        // Instead of giving up, let's provide a more helpful message with actual content if any
+        if (extractedText.length > 0) {
+          extractedText = `[Limited text extraction from ${path.basename(filePath)}]\n\nExtracted content: ${extractedText}`;
+        } else {
+          extractedText = `[No text extracted from ${path.basename(filePath)}]\n\nThis PDF may contain primarily images or scanned content that OCR could not read.`;
+        }
+      }
+
+      return {
+        text: extractedText,
+        images: [], // Image extraction would require additional libraries
+        metadata: {
+          pageCount: pdfData.Pages?.length || 1,
+          fileSize: 0, // pdf2json doesn't provide file size
+          title: pdfData.Meta?.Title || path.basename(filePath, '.pdf'),
+          ocrPages
+        },
+        pages,
+        questionRegions: this.locateQuestionRegions(pdfData.Pages || [])
+      };
+    } catch (error) {
+      throw new Error(`Failed to process PDF data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private parsePdf(filePath: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const pdfParser = new (PDFParser as any)(null, 1);
+      pdfParser.on("pdfParser_dataError", reject);
+      pdfParser.on("pdfParser_dataReady", resolve);
+      pdfParser.loadPDF(filePath);
+    });
+  }
+
+  private pageTextLength(page: any): number {
+    return (page.Texts || []).reduce((length: number, textItem: any) =>
+      length + (textItem.R || []).reduce((sum: number, run: any) => sum + this.decodeText(run.T || '').trim().length, 0), 0);
+  }
+
+  // OCR the given pages (all pages when omitted) and convert the words into pdf2json-shaped
+  // pages, so layout rebuilding and question regions work the same as for digital papers
+  private async tryOcr(filePath: string, pageNumbers?: number[]): Promise<{ pages: any[]; ocrPages: number[] } | null> {
+    try {
+      const ocrResults = await ocrProcessor.recognizePages(filePath, pageNumbers);
+      console.log(`🔎 OCR read ${ocrResults.length} page(s) of ${path.basename(filePath)}`);
+
+      return {
+        ocrPages: ocrResults.map(result => result.pageNumber),
+        pages: ocrResults.map(result => ({
+          Width: result.width / UNIT_TO_POINTS,
+          Height: result.height / UNIT_TO_POINTS,
+          Texts: result.words.map(word => ({
+            x: word.bbox.x / UNIT_TO_POINTS,
+            y: word.bbox.y / UNIT_TO_POINTS,
+            width: word.bbox.width / UNIT_TO_POINTS,
+            R: [{ T: encodeURIComponent(word.text), TS: [0, (word.bbox.height / 0.7) / 0.75, 0, 0] }]
+          }))
+        }))
+      };
+    } catch (error) {
+      console.error(`❌ OCR failed for ${path.basename(filePath)}:`, error);
+      return null;
+    }
+  }
 
-      pdfParser.on("pdfParser_dataReady", (pdfData: any) => {
-        try {
-          console.log(`📄 Processing PDF: ${path.basename(filePath)}`);
-          console.log(`📊 PDF structure - Pages: ${pdfData.Pages?.length || 0}`);
-          
-          // Extract text from parsed PDF data
-          let extractedText = '';
-          
-          if (pdfData.Pages) {
-            for (let pageIndex = 0; pageIndex < pdfData.Pages.length; pageIndex++) {
-              const page = pdfData.Pages[pageIndex];
-              console.log(`📃 Page ${pageIndex + 1} - Texts: ${page.Texts?.length || 0}`);
-              
-              if (page.Texts) {
-                for (const textItem of page.Texts) {
-                  if (textItem.R) {
-                    for (const run of textItem.R) {
-                      if (run.T) {
-                        const decodedText = decodeURIComponent(run.T);
-                        extractedText += decodedText + ' ';
-                      }
-                    }
-                  }
-                }
-              }
-              extractedText += '\n\n'; // Add page breaks
-            }
+  private extractFlatPages(pages: any[]): PageText[] {
+    return pages.map((page: any, pageIndex: number) => {
+      console.log(`📃 Page ${pageIndex + 1} - Texts: ${page.Texts?.length || 0}`);
+
+      let pageText = '';
+      for (const textItem of page.Texts || []) {
+        for (const run of textItem.R || []) {
+          if (run.T) {
+            pageText += this.decodeText(run.T) + ' ';
           }
-          
-          // Clean up the text
-          extractedText = extractedText.replace(/\s+/g, ' ').trim();
-          
-          console.log(`📝 Extracted text length: ${extractedText.length} characters`);
-          console.log(`📄 First 200 characters: ${extractedText.substring(0, 200)}`);
-          
-          if (!extractedText || extractedText.length < 50) {
-            console.warn(`⚠️ Minimal or no text extracted from ${path.basename(filePath)}`);
-            // Instead of giving up, let's provide a more helpful message with actual content if any
-            if (extractedText.length > 0) {
-              extractedText = `[Limited text extraction from ${path.basename(filePath)}]\n\nExtracted content: ${extractedText}`;
-            } else {
-              extractedText = `[No text extracted from ${path.basename(filePath)}]\n\nThis PDF may contain primarily images or scanned content that requires OCR processing.`;
-            }
+        }
+      }
+      return { pageNumber: pageIndex + 1, text: pageText.replace(/\s+/g, ' ').trim() };
+    });
+  }
+
+  // Rebuilds lines from text positions, keeps column gaps as tabs, separates blocks with
+  // blank lines and drops headers and footers that repeat across pages
+  private extractLayoutPages(pages: any[]): PageText[] {
+    const pageLines = pages.map((page: any, pageIndex: number) => {
+      console.log(`📃 Page ${pageIndex + 1} - Texts: ${page.Texts?.length || 0}`);
+      const height = page.Height || 0;
+      return this.buildLines(this.positionedTexts(page)).map(line => ({
+        ...line,
+        isEdge: line.y < height * HEADER_BAND || line.y > height * FOOTER_BAND
+      }));
+    });
+
+    const repeated = this.findRepeatedLines(
+      pageLines.map(lines => lines.filter(line => line.isEdge).map(line => line.text))
+    );
+
+    return pageLines.map((lines, pageIndex) => {
+      const kept = lines.filter(line =>
+        !PAGE_FURNITURE.test(line.text) && !(line.isEdge && repeated.has(this.lineSignature(line.text)))
+      );
+
+      let text = '';
+      kept.forEach((line, index) => {
+        if (index > 0) {
+          const gap = line.y - kept[index - 1].y;
+          text += gap > line.height * 1.8 ? '\n\n' : '\n';
+        }
+        text += line.text;
+      });
+
+      return { pageNumber: pageIndex + 1, text };
+    });
+  }
+
+  private positionedTexts(page: any): PositionedText[] {
+    return (page.Texts || [])
+      .map((textItem: any) => {
+        const text = (textItem.R || []).map((run: any) => this.decodeText(run.T || '')).join('');
+        // TS[1] is the font size in pixels; an average glyph is about half an em wide.
+        // OCR words carry their measured width instead.
+        const fontSize = (textItem.R?.[0]?.TS?.[1] || 12) * 0.75;
+        const charWidth = (fontSize * 0.5) / UNIT_TO_POINTS;
+        const width = textItem.width ?? text.length * charWidth;
+        return { x: textItem.x, y: textItem.y, endX: textItem.x + width, text };
+      })
+      .filter((item: PositionedText) => item.text.trim().length > 0);
+  }
+
+  private buildLines(items: PositionedText[]): Array<{ y: number; height: number; text: string }> {
+    const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+    const rows: PositionedText[][] = [];
+
+    for (const item of sorted) {
+      const row = rows[rows.length - 1];
+      if (row && Math.abs(row[0].y - item.y) <= LINE_TOLERANCE) {
+        row.push(item);
+      } else {
+        rows.push([item]);
+      }
+    }
+
+    const lines = rows.map(row => {
+      row.sort((a, b) => a.x - b.x);
+      let text = '';
+      row.forEach((item, index) => {
+        if (index > 0) {
+          const gap = item.x - row[index - 1].endX;
+          if (gap > COLUMN_GAP) {
+            text += '\t';
+          } else if (!/\s$/.test(text) && !/^\s/.test(item.text)) {
+            text += ' ';
           }
-          
-          resolve({
-            text: extractedText,
-            images: [], // Image extraction would require additional libraries
-            metadata: {
-              pageCount: pdfData.Pages?.length || 1,
-              fileSize: 0, // pdf2json doesn't provide file size
-              title: pdfData.Meta?.Title || path.basename(filePath, '.pdf')
-            }
-          });
-        } catch (error) {
-          reject(new Error(`Failed to process PDF data: ${error instanceof Error ? error.message : 'Unknown error'}`));
         }
+        text += item.text;
       });
+      return { y: row[0].y, height: 0, text: text.replace(/ {2,}/g, ' ').trim() };
+    });
 
-      pdfParser.loadPDF(filePath);
+    // Typical line spacing on the page, used to tell a new block from the next line
+    const gaps = lines.slice(1).map((line, index) => line.y - lines[index].y).filter(gap => gap > 0);
+    const lineHeight = gaps.length > 0 ? gaps.sort((a, b) => a - b)[Math.floor(gaps.length / 2)] : 1;
+    return lines.map(line => ({ ...line, height: lineHeight }));
+  }
+
+  // Header or footer lines found on at least half of the pages are running page furniture
+  private findRepeatedLines(edgeLines: string[][]): Set<string> {
+    const repeated = new Set<string>();
+    if (edgeLines.length < 3) return repeated;
+
+    const counts = new Map<string, number>();
+    for (const lines of edgeLines) {
+      const signatures = new Set(lines.map(line => this.lineSignature(line)));
+      signatures.forEach(signature => counts.set(signature, (counts.get(signature) || 0) + 1));
+    }
+
+    counts.forEach((count, signature) => {
+      if (signature && count >= edgeLines.length / 2) {
+        repeated.add(signature);
+      }
+    });
+    return repeated;
+  }
+
+  // Page numbers differ between pages, so compare lines with their digits masked
+  private lineSignature(line: string): string {
+    return line.replace(/\d+/g, '#').replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+
+  // Regions belonging to a question, matched on its main number ("3(b)(ii)" -> "3")
+  regionsForQuestion(regions: QuestionRegion[], questionNumber?: string | null): QuestionRegion[] {
+    const main = questionNumber?.match(/\d{1,2}/)?.[0];
+    if (!main) return [];
+    return regions.filter(region => region.questionNumber === String(parseInt(main, 10)));
+  }
+
+  // Cambridge papers print each question number on its own at the left margin. Every
+  // question spans from its number down to the next number, possibly across pages.
+  private locateQuestionRegions(pages: any[]): QuestionRegion[] {
+    const layouts = pages.map((page: any) => {
+      const items = (page.Texts || [])
+        .map((textItem: any) => ({
+          x: textItem.x as number,
+          y: textItem.y as number,
+          text: (textItem.R || []).map((run: any) => this.decodeText(run.T || '')).join('').trim()
+        }))
+        .filter((item: any) => item.text && !PAGE_FURNITURE.test(item.text));
+
+      const leftEdge = items.length > 0 ? Math.min(...items.map((item: any) => item.x)) : 0;
+      const top = items.length > 0 ? Math.min(...items.map((item: any) => item.y)) : 0;
+      const bottom = items.length > 0 ? Math.max(...items.map((item: any) => item.y)) : 0;
+      return { width: page.Width as number, items, leftEdge, top, bottom };
+    });
+
+    const starts: Array<{ questionNumber: number; pageIndex: number; y: number }> = [];
+    let current = 0;
+    layouts.forEach((layout, pageIndex) => {
+      const labels = layout.items
+        .filter((item: any) => /^\d{1,2}\.?$/.test(item.text) && item.x <= layout.leftEdge + 1)
+        .sort((a: any, b: any) => a.y - b.y);
+
+      for (const label of labels) {
+        const questionNumber = parseInt(label.text, 10);
+        if (questionNumber !== current + 1) continue;
+        starts.push({ questionNumber, pageIndex, y: label.y });
+        current = questionNumber;
+      }
     });
+
+    const regions: QuestionRegion[] = [];
+    const toRegion = (questionNumber: number, pageIndex: number, fromY: number, toY: number): QuestionRegion => {
+      const layout = layouts[pageIndex];
+      const left = Math.max(layout.leftEdge - 0.5, 0);
+      const right = Math.min(layout.width - left, layout.width);
+      return {
+        questionNumber: String(questionNumber),
+        pageNumber: pageIndex + 1,
+        bbox: {
+          x: left * UNIT_TO_POINTS,
+          y: fromY * UNIT_TO_POINTS,
+          width: (right - left) * UNIT_TO_POINTS,
+          height: Math.max(toY - fromY, 0) * UNIT_TO_POINTS
+        }
+      };
+    };
+
+    starts.forEach((start, index) => {
+      const next = starts[index + 1];
+      // The last question is not followed by a number, so only its own page can be trusted
+      const lastPage = next ? next.pageIndex : start.pageIndex;
+
+      for (let pageIndex = start.pageIndex; pageIndex <= lastPage; pageIndex++) {
+        const layout = layouts[pageIndex];
+        if (layout.items.length === 0) continue;
+
+        const fromY = pageIndex === start.pageIndex ? start.y - 0.6 : layout.top - 0.6;
+        const toY = next && pageIndex === next.pageIndex ? next.y - 0.6 : layout.bottom + 1.2;
+        if (toY - fromY > 1) {
+          regions.push(toRegion(start.questionNumber, pageIndex, fromY, toY));
+        }
+      }
+    });
+
+    console.log(`📐 Located ${starts.length} questions across ${pages.length} pages`);
+    return regions;
+  }
+
+  private decodeText(text: string): string {
+    try {
+      return decodeURIComponent(text);
+    } catch {
+      return text;
+    }
   }
 
   private async simulateImageExtraction(buffer: Buffer): Promise<Array<{
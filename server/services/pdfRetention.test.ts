@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MemStorage } from "../storage";
+import type { PdfFileInfo } from "./pdfGenerator";
+import { PdfRetention, retentionPolicyFromEnv, type RetentionPolicy } from "./pdfRetention";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// In-memory records, and a generated_pdfs/ folder that only exists as a list
+const fixtures = vi.hoisted(() => ({
+  storage: null as unknown as MemStorage,
+  files: [] as PdfFileInfo[],
+  deleted: [] as string[],
+}));
+
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  return {
+    ...actual,
+    get storage() {
+      return fixtures.storage;
+    },
+  };
+});
+
+vi.mock("./pdfGenerator", () => ({
+  pdfGenerator: {
+    listPdfFiles: async () => fixtures.files,
+    deletePdf: async (filePath: string) => {
+      fixtures.deleted.push(filePath);
+      fixtures.files = fixtures.files.filter(file => file.filePath !== filePath);
+    },
+  },
+}));
+
+const off: RetentionPolicy = { maxAgeDays: null, maxCount: null, sweepIntervalMs: 60000, orphanGraceMs: 60000 };
+
+beforeEach(async () => {
+  const { MemStorage } = await import("../storage");
+  fixtures.storage = new MemStorage();
+  fixtures.files = [];
+  fixtures.deleted = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Saves a record and its file as they would have been at `ageMs` ago
+async function addPdf(name: string, ageMs: number, options: { pinned?: boolean; fileSize?: number | null } = {}) {
+  vi.useFakeTimers({ toFake: ["Date"], now: Date.now() - ageMs });
+  const pdf = await fixtures.storage.createGeneratedPdf({
+    filename: name,
+    subject: "Physics",
+    mainTopic: "Waves",
+    questionCount: 1,
+    diagramCount: 0,
+    filePath: `/pdfs/${name}`,
+    pinned: options.pinned ?? false,
+    fileSize: options.fileSize === undefined ? 100 : options.fileSize,
+  });
+  vi.useRealTimers();
+  fixtures.files.push({ filePath: pdf.filePath, size: 100, modifiedAt: new Date(Date.now() - ageMs) });
+  return pdf;
+}
+
+async function remaining() {
+  return (await fixtures.storage.getGeneratedPdfFiles()).map(file => file.filePath).sort();
+}
+
+describe("PdfRetention", () => {
+  it("removes nothing while no limit is configured", async () => {
+    await addPdf("old.pdf", 400 * DAY);
+    fixtures.files.push({ filePath: "/pdfs/orphan.pdf", size: 10, modifiedAt: new Date(Date.now() - 10 * DAY) });
+
+    const retention = new PdfRetention(off);
+
+    expect(retention.enabled).toBe(false);
+    expect(await retention.sweep()).toEqual({ expired: 0, orphanedFiles: 0, sizesRecorded: 0 });
+    expect(fixtures.deleted).toEqual([]);
+  });
+
+  it("still records missing file sizes while off", async () => {
+    const pdf = await addPdf("legacy.pdf", DAY, { fileSize: null });
+
+    expect(await new PdfRetention(off).sweep()).toMatchObject({ sizesRecorded: 1 });
+    expect((await fixtures.storage.getGeneratedPdf(pdf.id))?.fileSize).toBe(100);
+  });
+
+  it("removes unpinned PDFs older than the age limit with their files", async () => {
+    await addPdf("old.pdf", 40 * DAY);
+    await addPdf("pinned.pdf", 40 * DAY, { pinned: true });
+    await addPdf("new.pdf", DAY);
+
+    const result = await new PdfRetention({ ...off, maxAgeDays: 30 }).sweep();
+
+    expect(result.expired).toBe(1);
+    expect(fixtures.deleted).toEqual(["/pdfs/old.pdf"]);
+    expect(await remaining()).toEqual(["/pdfs/new.pdf", "/pdfs/pinned.pdf"]);
+  });
+
+  it("keeps only the newest unpinned PDFs beyond the count limit", async () => {
+    await addPdf("oldest.pdf", 3 * DAY);
+    await addPdf("pinned.pdf", 4 * DAY, { pinned: true });
+    await addPdf("older.pdf", 2 * DAY);
+    await addPdf("newest.pdf", DAY);
+
+    await new PdfRetention({ ...off, maxCount: 2 }).sweep();
+
+    expect(await remaining()).toEqual(["/pdfs/newest.pdf", "/pdfs/older.pdf", "/pdfs/pinned.pdf"]);
+  });
+
+  it("removes files without a record once they are past the grace period", async () => {
+    fixtures.files.push(
+      { filePath: "/pdfs/orphan.pdf", size: 10, modifiedAt: new Date(Date.now() - 2 * 60000) },
+      { filePath: "/pdfs/saving.pdf", size: 10, modifiedAt: new Date() },
+    );
+
+    const result = await new PdfRetention({ ...off, maxCount: 10 }).sweep();
+
+    expect(result.orphanedFiles).toBe(1);
+    expect(fixtures.deleted).toEqual(["/pdfs/orphan.pdf"]);
+  });
+
+  it("shares one sweep between overlapping requests", async () => {
+    const retention = new PdfRetention(off);
+    const sweep = retention.sweep();
+
+    expect(retention.sweep()).toBe(sweep);
+    await sweep;
+  });
+});
+
+describe("retentionPolicyFromEnv", () => {
+  it("is off unless a limit is set", () => {
+    expect(retentionPolicyFromEnv({})).toMatchObject({ maxAgeDays: null, maxCount: null });
+  });
+
+  it("reads limits, treating 0 and invalid values as off", () => {
+    expect(retentionPolicyFromEnv({ PDF_RETENTION_DAYS: "30", PDF_RETENTION_MAX_COUNT: "0" }))
+      .toMatchObject({ maxAgeDays: 30, maxCount: null });
+    expect(retentionPolicyFromEnv({ PDF_RETENTION_DAYS: "-1", PDF_RETENTION_MAX_COUNT: "many" }))
+      .toMatchObject({ maxAgeDays: null, maxCount: null });
+  });
+});
@@ -0,0 +1,132 @@
+import path from "path";
+import { storage } from "../storage";
+import { pdfGenerator } from "./pdfGenerator";
+
+export interface RetentionPolicy {
+  maxAgeDays: number | null; // unpinned PDFs older than this are removed; null keeps them
+  maxCount: number | null; // only this many of the newest unpinned PDFs are kept; null keeps all
+  sweepIntervalMs: number;
+  orphanGraceMs: number; // files without a record are left alone this long, as a generation may still be saving its record
+}
+
+export interface SweepResult {
+  expired: number; // records removed with their files
+  orphanedFiles: number; // files in generated_pdfs/ that no record refers to
+  sizesRecorded: number; // older records that now have their size in bytes
+}
+
+// Removes generated PDFs that fall outside the retention policy, on a timer and on request.
+// Pinned PDFs are never removed; everything else goes once it is too old or too far down
+// the list. Files left behind without a record (a crash between writing the file and saving
+// the record, or copies from before file names were unique) are removed too. The policy is
+// opt-in: with no limit configured a sweep only records missing file sizes.
+export class PdfRetention {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<SweepResult> | null = null;
+
+  constructor(readonly policy: RetentionPolicy) {}
+
+  // Nothing is removed unless a limit is configured
+  get enabled(): boolean {
+    return this.policy.maxAgeDays !== null || this.policy.maxCount !== null;
+  }
+
+  start(): void {
+    if (!this.enabled) {
+      console.log('🧹 PDF retention is off: set PDF_RETENTION_DAYS or PDF_RETENTION_MAX_COUNT to remove old PDFs');
+      return;
+    }
+    this.timer = setInterval(() => void this.sweepQuietly(), this.policy.sweepIntervalMs);
+    this.timer.unref();
+    console.log(`🧹 PDF retention: ${this.describePolicy()}`);
+    void this.sweepQuietly();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Overlapping requests share one sweep
+  sweep(): Promise<SweepResult> {
+    if (!this.sweeping) {
+      this.sweeping = this.runSweep().finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  private async sweepQuietly(): Promise<void> {
+    try {
+      await this.sweep();
+    } catch (error) {
+      console.error('❌ PDF retention sweep failed:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async runSweep(): Promise<SweepResult> {
+    const result: SweepResult = { expired: 0, orphanedFiles: 0, sizesRecorded: 0 };
+    const { maxAgeDays, maxCount } = this.policy;
+
+    const createdBefore = maxAgeDays !== null ? new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000) : null;
+    if (this.enabled) {
+      for (const pdf of await storage.getExpiredGeneratedPdfs(createdBefore, maxCount)) {
+        if (!await storage.deleteGeneratedPdf(pdf.id)) continue;
+        await pdfGenerator.deletePdf(pdf.filePath);
+        result.expired++;
+      }
+    }
+
+    const records = new Map((await storage.getGeneratedPdfFiles()).map(record => [path.resolve(record.filePath), record]));
+    const orphanedBefore = Date.now() - this.policy.orphanGraceMs;
+
+    for (const file of await pdfGenerator.listPdfFiles()) {
+      const record = records.get(path.resolve(file.filePath));
+      if (!record) {
+        if (this.enabled && file.modifiedAt.getTime() < orphanedBefore) {
+          await pdfGenerator.deletePdf(file.filePath);
+          result.orphanedFiles++;
+        }
+      } else if (record.fileSize === null) {
+        await storage.updateGeneratedPdf(record.id, { fileSize: file.size });
+        result.sizesRecorded++;
+      }
+    }
+
+    if (result.expired || result.orphanedFiles || result.sizesRecorded) {
+      console.log(`🧹 PDF retention sweep: removed ${result.expired} expired PDFs and ${result.orphanedFiles} orphaned files, recorded ${result.sizesRecorded} sizes`);
+    }
+    return result;
+  }
+
+  private describePolicy(): string {
+    const { maxAgeDays, maxCount } = this.policy;
+    const rules = [
+      maxAgeDays !== null ? `remove unpinned PDFs after ${maxAgeDays} days` : null,
+      maxCount !== null ? `keep the newest ${maxCount} unpinned PDFs` : null,
+    ].filter(Boolean);
+    return rules.length > 0 ? rules.join(', ') : 'keep all PDFs';
+  }
+}
+
+// Unlike the job queue settings, 0 is meaningful here: it turns the rule off
+function limitSetting(value: string | undefined, fallback: number | null): number | null {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 0) return fallback;
+  return parsed === 0 ? null : parsed;
+}
+
+// PDF_RETENTION_DAYS and PDF_RETENTION_MAX_COUNT set the policy, which is off until one of
+// them is set (0 also turns a rule off); PDF_RETENTION_SWEEP_MS sets how often it is applied
+export function retentionPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  return {
+    maxAgeDays: limitSetting(env.PDF_RETENTION_DAYS, null),
+    maxCount: limitSetting(env.PDF_RETENTION_MAX_COUNT, null),
+    sweepIntervalMs: limitSetting(env.PDF_RETENTION_SWEEP_MS, null) ?? 60 * 60 * 1000,
+    orphanGraceMs: 60 * 60 * 1000
+  };
+}
+
+export const pdfRetention = new PdfRetention(retentionPolicyFromEnv());
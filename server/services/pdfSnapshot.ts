@@ -0,0 +1,55 @@
+import { createHash } from "crypto";
+import type { GeneratedPdfSnapshot, Question } from "@shared/schema";
+import type { AnswerSchemeMap, GeneratedPdfResult } from "./pdfGenerator";
+
+// The parts of a question that end up on the page; ids, topic links and timestamps don't count
+export function questionVersion(question: Question): string {
+  const content = [
+    question.questionText,
+    question.questionNumber,
+    question.paperYear,
+    question.paperSession,
+    question.hasVectorDiagram,
+    question.diagramData,
+    question.difficulty,
+    question.marks,
+  ];
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex').slice(0, 16);
+}
+
+// Records the questions of a freshly generated PDF in the order they were rendered
+export function buildPdfSnapshot(result: GeneratedPdfResult, questions: Question[], answers?: AnswerSchemeMap): GeneratedPdfSnapshot {
+  const byId = new Map(questions.map(question => [question.id, question]));
+
+  return {
+    title: result.title,
+    subtitle: result.subtitle,
+    questions: result.questionIds
+      .filter(id => byId.has(id))
+      .map(id => {
+        const question = byId.get(id)!;
+        return {
+          id,
+          version: questionVersion(question),
+          question,
+          ...(answers ? { answers: answers.get(id) || [] } : {}),
+        };
+      }),
+  };
+}
+
+// Questions and answers as they were when the snapshot was taken; dates come back from JSON as strings
+export function restorePdfSnapshot(snapshot: GeneratedPdfSnapshot): { questions: Question[]; answers: AnswerSchemeMap } {
+  const answers: AnswerSchemeMap = new Map();
+  const questions = snapshot.questions.map(entry => {
+    if (entry.answers) {
+      answers.set(entry.id, entry.answers.map(answer => ({
+        ...answer,
+        createdAt: answer.createdAt ? new Date(answer.createdAt) : null,
+      })));
+    }
+    return { ...entry.question, createdAt: entry.question.createdAt ? new Date(entry.question.createdAt) : null };
+  });
+
+  return { questions, answers };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { QuestionSegmenter } from "./questionSegmenter";
+
+const segmenter = new QuestionSegmenter();
+
+describe("QuestionSegmenter", () => {
+  it("splits a structured paper into questions with lettered and roman parts", () => {
+    const segments = segmenter.segment([
+      "READ THESE INSTRUCTIONS FIRST",
+      "1 A car accelerates from rest.",
+      "(a) State what is meant by acceleration. [1]",
+      "(b) (i) Calculate the acceleration. [2]",
+      "(ii) Calculate the distance travelled. [2]",
+      "2 A ball is thrown upwards.",
+      "Calculate its maximum height. [3]",
+    ].join("\n"));
+
+    expect(segments.map(s => s.questionNumber)).toEqual(["1", "2"]);
+    expect(segments[0].parts.map(p => [p.label, p.marks])).toEqual([
+      ["1(a)", 1],
+      ["1(b)(i)", 2],
+      ["1(b)(ii)", 2],
+    ]);
+    expect(segments[0].marks).toBe(5);
+    expect(segments[0].text).not.toContain("INSTRUCTIONS");
+  });
+
+  it("gives a question without parts its own mark", () => {
+    const [question] = segmenter.segment("1 Define power. [1]");
+
+    expect(question.parts).toEqual([{ label: "1", text: "", marks: 1 }]);
+    expect(question.marks).toBe(1);
+  });
+
+  it("prefers the printed total over the sum of part marks", () => {
+    const [question] = segmenter.segment([
+      "1 (a) Define work. [1]",
+      "(b) Define energy. [1]",
+      "[Total: 3]",
+    ].join("\n"));
+
+    expect(question.marks).toBe(3);
+  });
+
+  it("does not open a question from a number inside an unfinished one", () => {
+    const segments = segmenter.segment([
+      "1 The table shows readings taken at",
+      "2 second intervals.",
+      "Plot a graph of the readings. [3]",
+      "2 State one source of error. [1]",
+    ].join("\n"));
+
+    expect(segments.map(s => s.questionNumber)).toEqual(["1", "2"]);
+    expect(segments[0].text).toContain("2 second intervals.");
+  });
+
+  it("numbers multiple choice questions without mark brackets", () => {
+    const segments = segmenter.segment("1 Which is a vector?\nA mass\n2 Which is a scalar?\nB force");
+
+    expect(segments.map(s => s.questionNumber)).toEqual(["1", "2"]);
+  });
+
+  it("reads (i) as a roman numeral under the current letter, not as a letter part", () => {
+    const [question] = segmenter.segment([
+      "1 (h) State the unit. [1]",
+      "(i) State the symbol. [1]",
+    ].join("\n"));
+
+    expect(question.parts.map(p => p.label)).toEqual(["1(h)", "1(h)(i)"]);
+  });
+
+  it("stops at the end of the paper", () => {
+    const segments = segmenter.segment("1 Define force. [1]\nBLANK PAGE\n2 Not a question. [1]");
+
+    expect(segments).toHaveLength(1);
+  });
+});
@@ -0,0 +1,148 @@
+export interface QuestionPart {
+  label: string; // e.g. '3(b)(ii)'
+  text: string;
+  marks?: number;
+}
+
+export interface QuestionSegment {
+  questionNumber: string; // main question number, e.g. '3'
+  text: string; // full question text including all sub-parts
+  marks?: number;
+  parts: QuestionPart[];
+}
+
+// "3 A car ...", "3. A car ..." or a bare "3" on its own line
+const QUESTION_START = /^(\d{1,2})\.?(?:\s+|$)/;
+
+// "(a)", "(b)" ... sub-parts and "(i)", "(ii)" ... sub-sub-parts
+const LETTER_PART = /^\(([a-h])\)\s*/;
+const ROMAN_PART = /^\((i{1,3}|iv|v|vi{0,3}|ix|x)\)\s*/;
+
+// Mark allocation printed at the end of a line, e.g. "[2]"
+const MARK_BRACKET = /\[(\d{1,2})\]\s*$/;
+const TOTAL_MARKS = /\[Total:\s*(\d{1,3})\]/i;
+
+// Text after the last question that is never part of it
+const END_OF_PAPER = /^(BLANK PAGE|Permission to reproduce items|The Periodic Table of Elements|DATA SHEET)/i;
+
+// Splits a paper into questions and sub-parts using Cambridge numbering: questions
+// count up from 1 at the start of a line, sub-parts are (a), (b) with (i), (ii) below
+// them, and each part ends with its mark allocation in square brackets
+export class QuestionSegmenter {
+  segment(text: string): QuestionSegment[] {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const segments: QuestionSegment[] = [];
+
+    // Structured papers end every question with a mark bracket, so a number at the start of
+    // a line only opens the next question when the line before it closed with marks.
+    // Multiple choice papers have no brackets and rely on numbering alone.
+    const hasMarkBrackets = lines.some(line => MARK_BRACKET.test(line));
+
+    let current: QuestionSegment | null = null;
+    let letter: string | null = null;
+    let part: QuestionPart | null = null;
+    let totalMarks: number | undefined;
+    let previousEndedWithMarks = true;
+
+    const closeQuestion = () => {
+      if (!current) return;
+      const partMarks = current.parts.reduce((sum, p) => sum + (p.marks || 0), 0);
+      current.marks = totalMarks ?? (partMarks > 0 ? partMarks : undefined);
+      current.text = current.text.trim();
+      segments.push(current);
+      current = null;
+      part = null;
+      letter = null;
+      totalMarks = undefined;
+    };
+
+    for (const rawLine of lines) {
+      if (END_OF_PAPER.test(rawLine)) {
+        closeQuestion();
+        break;
+      }
+
+      let line = rawLine;
+      const startMatch = line.match(QUESTION_START);
+      const open = current as QuestionSegment | null;
+      const expected = (open ? parseInt(open.questionNumber, 10) : 0) + 1;
+      const canClose = !open || !hasMarkBrackets || previousEndedWithMarks;
+      previousEndedWithMarks = MARK_BRACKET.test(rawLine) || TOTAL_MARKS.test(rawLine);
+
+      if (startMatch && parseInt(startMatch[1], 10) === expected && canClose) {
+        closeQuestion();
+        current = { questionNumber: String(expected), text: '', parts: [] };
+        line = line.slice(startMatch[0].length);
+      }
+
+      // Instructions and cover page text before question 1
+      if (!current) continue;
+      const question: QuestionSegment = current;
+      question.text += `${line}\n`;
+
+      const label = this.readPartLabel(line, letter);
+      if (label) {
+        letter = label.letter;
+        part = { label: `${question.questionNumber}${label.label}`, text: '' };
+        question.parts.push(part);
+        line = line.slice(label.length);
+      }
+
+      const total = line.match(TOTAL_MARKS);
+      if (total) {
+        totalMarks = parseInt(total[1], 10);
+        line = line.replace(TOTAL_MARKS, '').trim();
+      }
+
+      const marks = line.match(MARK_BRACKET);
+      if (marks && part) {
+        part.marks = (part.marks || 0) + parseInt(marks[1], 10);
+      } else if (marks && question.parts.length === 0) {
+        // Questions without sub-parts carry their mark directly
+        question.parts.push({ label: question.questionNumber, text: '', marks: parseInt(marks[1], 10) });
+      }
+
+      if (part) {
+        part.text = `${part.text}${line}\n`;
+      }
+    }
+
+    closeQuestion();
+
+    for (const segment of segments) {
+      segment.parts.forEach(p => { p.text = p.text.trim(); });
+    }
+
+    console.log(`✂️ Segmented ${segments.length} questions with ${segments.reduce((sum, s) => sum + s.parts.length, 0)} parts`);
+    return segments;
+  }
+
+  // Reads "(a)", "(a)(i)" or "(ii)" at the start of a line. Letter parts stop at (h), so
+  // "(i)" is always a roman numeral; before any letter part it is not read as a label.
+  private readPartLabel(
+    line: string,
+    currentLetter: string | null
+  ): { label: string; letter: string | null; length: number } | null {
+    const letterMatch = line.match(LETTER_PART);
+    const romanMatch = line.match(ROMAN_PART);
+
+    if (romanMatch && currentLetter) {
+      return { label: `(${currentLetter})(${romanMatch[1]})`, letter: currentLetter, length: romanMatch[0].length };
+    }
+
+    if (letterMatch) {
+      const rest = line.slice(letterMatch[0].length);
+      const nested = rest.match(ROMAN_PART);
+      const label = nested ? `(${letterMatch[1]})(${nested[1]})` : `(${letterMatch[1]})`;
+      return {
+        label,
+        letter: letterMatch[1],
+        length: letterMatch[0].length + (nested ? nested[0].length : 0)
+      };
+    }
+
+    return null;
+  }
+}
+
+export const questionSegmenter = new QuestionSegmenter();
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { SyllabusChunker } from "./syllabusChunker";
+import type { ExtractedTopic } from "./openai";
+
+const chunker = new SyllabusChunker();
+
+function topic(mainTopic: string, subtopics: ExtractedTopic["subtopics"], extra: Partial<ExtractedTopic> = {}): ExtractedTopic {
+  return { mainTopic, description: "", subtopics, ...extra };
+}
+
+describe("SyllabusChunker.split", () => {
+  const syllabus = [
+    "Cambridge O Level Physics 5054",
+    "1 Physical quantities and units",
+    "1.1 Measurement of length",
+    "2 Kinematics",
+    "2.1 Speed, velocity and acceleration",
+    "3 Dynamics",
+    "3.1 Newton's laws",
+  ].join("\n");
+
+  it("keeps a short syllabus in one chunk", () => {
+    const chunks = chunker.split(syllabus);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].sections).toEqual(["1 Physical quantities and units", "2 Kinematics", "3 Dynamics"]);
+  });
+
+  it("cuts at section headings once a chunk is full", () => {
+    const chunks = chunker.split(syllabus, 80);
+
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_, index) => index));
+    expect(chunks.flatMap(chunk => chunk.sections)).toEqual(["1 Physical quantities and units", "2 Kinematics", "3 Dynamics"]);
+    expect(chunks.find(chunk => chunk.sections.includes("2 Kinematics"))!.text).toContain("2.1 Speed, velocity and acceleration");
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(80));
+  });
+
+  it("only treats numbers that count up by one as section headings", () => {
+    const chunks = chunker.split("1 Motion\n5 Students should be able to\n2 Forces", 15000);
+
+    expect(chunks[0].sections).toEqual(["1 Motion", "2 Forces"]);
+  });
+
+  it("cuts a section longer than the budget at line breaks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `Objective line number ${i + 1}`);
+    const chunks = chunker.split(`1 Kinematics\n${lines.join("\n")}`, 120);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.sections).toEqual(["1 Kinematics"]));
+    expect(chunks.map(chunk => chunk.text).join("\n")).toContain("Objective line number 20");
+  });
+});
+
+describe("SyllabusChunker.merge", () => {
+  it("combines topics named differently across chunks", () => {
+    const merged = chunker.merge([
+      [topic("1. Forces & Motion", [{ name: "Speed", learningObjectives: ["Define speed"] }])],
+      [topic("Forces and motion", [
+        { name: "speed", code: "1.1", learningObjectives: ["define speed", "Calculate average speed"] },
+        { name: "Acceleration", learningObjectives: [] },
+      ], { code: "1", description: "How things move" })],
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ mainTopic: "1. Forces & Motion", code: "1", description: "How things move" });
+    expect(merged[0].subtopics).toEqual([
+      { name: "Speed", code: "1.1", learningObjectives: ["Define speed", "Calculate average speed"] },
+      { name: "Acceleration", learningObjectives: [] },
+    ]);
+  });
+
+  it("does not change the topic lists it was given", () => {
+    const first = topic("Waves", [{ name: "Sound", learningObjectives: ["Describe echoes"] }]);
+    chunker.merge([[first], [topic("Waves", [{ name: "Sound", learningObjectives: ["Measure the speed of sound"] }])]]);
+
+    expect(first.subtopics[0].learningObjectives).toEqual(["Describe echoes"]);
+  });
+});
+
+describe("SyllabusChunker.normalizeName", () => {
+  it("drops numbering, punctuation and case", () => {
+    expect(chunker.normalizeName("2.1 Speed, Velocity & Acceleration")).toBe("speed velocity and acceleration");
+  });
+});
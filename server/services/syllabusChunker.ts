@@ -0,0 +1,152 @@
+import type { ExtractedSubtopic, ExtractedTopic } from './openai';
+
+// Each chunk is sent in its own AI request, well inside the model's context window
+const SYLLABUS_CHUNK_CHARS = 15000;
+
+// Section headings such as "1 Physical quantities and units" or "12. Electromagnetism"
+const SECTION_HEADING = /^(\d{1,2})\.?\s+([A-Z][^.\d].{2,80})$/;
+
+export interface SyllabusChunk {
+  index: number;
+  sections: string[]; // headings of the sections in this chunk
+  text: string;
+}
+
+// Splits long syllabus documents at their numbered sections so topics can be extracted
+// piece by piece, then merges the per-chunk results back into one topic list
+export class SyllabusChunker {
+  split(text: string, maxChars: number = SYLLABUS_CHUNK_CHARS): SyllabusChunk[] {
+    const sections = this.splitSections(text);
+    const chunks: SyllabusChunk[] = [];
+    let current: { sections: string[]; text: string } = { sections: [], text: '' };
+
+    const flush = () => {
+      if (current.text.trim()) {
+        chunks.push({ index: chunks.length, sections: current.sections, text: current.text.trim() });
+      }
+      current = { sections: [], text: '' };
+    };
+
+    for (const section of sections) {
+      // Sections too long on their own are cut at line breaks
+      const pieces = section.text.length > maxChars ? this.splitLines(section.text, maxChars) : [section.text];
+
+      for (const piece of pieces) {
+        if (current.text && current.text.length + piece.length > maxChars) {
+          flush();
+        }
+        if (section.heading && !current.sections.includes(section.heading)) {
+          current.sections.push(section.heading);
+        }
+        current.text += `${piece}\n\n`;
+      }
+    }
+    flush();
+
+    console.log(`📚 Split syllabus into ${chunks.length} chunks from ${sections.length} sections`);
+    return chunks;
+  }
+
+  // A section cut across two chunks comes back as two topics, and the AI words headings
+  // slightly differently each time, so topics are matched on a normalised name
+  merge(topicLists: ExtractedTopic[][]): ExtractedTopic[] {
+    const merged = new Map<string, ExtractedTopic>();
+
+    for (const topics of topicLists) {
+      for (const topic of topics) {
+        const key = this.normalizeName(topic.mainTopic);
+        const existing = merged.get(key);
+
+        if (!existing) {
+          merged.set(key, { ...topic, subtopics: this.mergeSubtopics([], topic.subtopics) });
+          continue;
+        }
+
+        existing.subtopics = this.mergeSubtopics(existing.subtopics, topic.subtopics);
+        existing.code = existing.code || topic.code;
+        if (!existing.description && topic.description) {
+          existing.description = topic.description;
+        }
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/^\s*\d+(\.\d+)*\.?\s*/, '')
+      .replace(/&/g, ' and ')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  // Subtopics with the same name are combined, keeping every distinct learning objective
+  private mergeSubtopics(existing: ExtractedSubtopic[], incoming: ExtractedSubtopic[]): ExtractedSubtopic[] {
+    const merged = new Map<string, ExtractedSubtopic>();
+
+    for (const subtopic of [...existing, ...incoming]) {
+      const key = this.normalizeName(subtopic.name);
+      if (!key) continue;
+
+      const current = merged.get(key);
+      if (!current) {
+        merged.set(key, { ...subtopic, learningObjectives: [...subtopic.learningObjectives] });
+        continue;
+      }
+
+      current.code = current.code || subtopic.code;
+      for (const objective of subtopic.learningObjectives) {
+        if (!current.learningObjectives.some(o => this.normalizeName(o) === this.normalizeName(objective))) {
+          current.learningObjectives.push(objective);
+        }
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  // Section numbers only count up by one, or restart at 1 when the syllabus content
+  // begins after the numbered front matter, which skips numbered lines inside sections
+  private splitSections(text: string): Array<{ heading: string | null; text: string }> {
+    const sections: Array<{ heading: string | null; text: string }> = [{ heading: null, text: '' }];
+    let lastNumber = 0;
+
+    for (const rawLine of text.split('\n')) {
+      const line = rawLine.trim();
+      const heading = line.match(SECTION_HEADING);
+      const number = heading ? parseInt(heading[1], 10) : 0;
+
+      if (heading && (number === lastNumber + 1 || number === 1)) {
+        sections.push({ heading: line, text: '' });
+        lastNumber = number;
+      }
+      sections[sections.length - 1].text += `${rawLine}\n`;
+    }
+
+    return sections.filter(section => section.text.trim());
+  }
+
+  private splitLines(text: string, maxChars: number): string[] {
+    const pieces: string[] = [];
+    let piece = '';
+
+    for (const line of text.split('\n')) {
+      // A single line longer than the budget is hard-cut
+      const parts = line.length > maxChars ? line.match(new RegExp(`.{1,${maxChars}}`, 'g'))! : [line];
+      for (const part of parts) {
+        if (piece && piece.length + part.length + 1 > maxChars) {
+          pieces.push(piece);
+          piece = '';
+        }
+        piece += `${part}\n`;
+      }
+    }
+    if (piece.trim()) pieces.push(piece);
+
+    return pieces;
+  }
+}
+
+export const syllabusChunker = new SyllabusChunker();
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { TopicNode } from "@shared/schema";
+import { TopicMatcher } from "./topicMatcher";
+
+const matcher = new TopicMatcher();
+
+function node(id: string, mainTopic: string, subtopic: string | null = null, children: TopicNode[] = []): TopicNode {
+  return {
+    id,
+    documentId: null,
+    subject: "Physics",
+    mainTopic,
+    subtopic,
+    parentId: null,
+    code: null,
+    sortOrder: 0,
+    learningObjectives: null,
+    description: null,
+    createdAt: null,
+    children,
+  };
+}
+
+const tree = [
+  node("kinematics", "Kinematics", null, [
+    node("speed", "Kinematics", "Speed and velocity"),
+    node("acceleration", "Kinematics", "Acceleration"),
+  ]),
+  node("thermal", "Thermal physics", null, [node("expansion", "Thermal physics", "Thermal expansion")]),
+  node("electricity", "Electricity & magnetism"),
+];
+
+describe("TopicMatcher.similarity", () => {
+  it("scores names equal after normalisation as identical", () => {
+    expect(matcher.similarity("3. Electricity & Magnetism", "electricity and magnetism")).toBe(1);
+  });
+
+  it("scores a name contained in the other highly", () => {
+    expect(matcher.similarity("Kinematics", "Kinematics of motion")).toBe(0.9);
+  });
+
+  it("scores unrelated names low", () => {
+    expect(matcher.similarity("Kinematics", "Radioactivity")).toBeLessThan(0.6);
+  });
+
+  it("scores empty names as no match", () => {
+    expect(matcher.similarity("", "Kinematics")).toBe(0);
+  });
+});
+
+describe("TopicMatcher.match", () => {
+  it("tags the matching subtopic, scaled by the AI's confidence", () => {
+    expect(matcher.match(tree, { topicMatch: "Kinematics", subtopicMatch: "Acceleration", confidence: 0.8 }))
+      .toEqual({ topicId: "acceleration", confidence: 0.8 });
+  });
+
+  it("falls back to the main topic when the subtopic matches nothing", () => {
+    expect(matcher.match(tree, { topicMatch: "Kinematics", subtopicMatch: "Nuclear decay" }))
+      .toEqual({ topicId: "kinematics", confidence: 1 });
+  });
+
+  it("finds a subtopic given in place of its main topic", () => {
+    expect(matcher.match(tree, { topicMatch: "Thermal expansion" })?.topicId).toBe("expansion");
+  });
+
+  it("lowers the confidence of inexact name matches", () => {
+    const tag = matcher.match(tree, { topicMatch: "Electricity and Magnetic fields", confidence: 1 });
+
+    expect(tag?.topicId).toBe("electricity");
+    expect(tag!.confidence).toBeLessThan(1);
+  });
+
+  it("matches nothing below the threshold", () => {
+    expect(matcher.match(tree, { topicMatch: "Radioactivity" })).toBeNull();
+  });
+});
+
+describe("TopicMatcher.resolve", () => {
+  it("keeps each topic once at its highest confidence, most confident first", () => {
+    expect(matcher.resolve(tree, [
+      { topicMatch: "Kinematics", subtopicMatch: "Acceleration", confidence: 0.5 },
+      { topicMatch: "Thermal physics", confidence: 0.7 },
+      { topicMatch: "Kinematics", subtopicMatch: "Acceleration", confidence: 0.9 },
+      { topicMatch: "Radioactivity", confidence: 1 },
+    ])).toEqual([
+      { topicId: "acceleration", confidence: 0.9 },
+      { topicId: "thermal", confidence: 0.7 },
+    ]);
+  });
+});
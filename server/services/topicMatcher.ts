@@ -0,0 +1,101 @@
+import type { TopicNode } from '@shared/schema';
+import { syllabusChunker } from './syllabusChunker';
+
+// Below this similarity an AI topic name is not treated as naming a stored topic
+const MATCH_THRESHOLD = 0.6;
+
+// Main topic holding each subject's questions that match no syllabus topic
+export const UNCLASSIFIED_TOPIC = 'Unclassified';
+
+// Sorts the unclassified topic after every syllabus topic; the largest value topics.sort_order (int4) holds
+export const UNCLASSIFIED_SORT_ORDER = 2147483647;
+
+export interface TopicCandidate {
+  topicMatch: string;
+  subtopicMatch?: string;
+  confidence?: number; // the AI's own confidence, 0-1
+}
+
+export interface TopicTag {
+  topicId: string;
+  confidence: number; // AI confidence scaled by how closely the names matched
+}
+
+// Maps the topic names the AI answers with onto a subject's topic tree. Names rarely
+// match exactly: the AI drops numbering, rewords "&" or pluralises, so they are compared
+// by character bigram overlap after normalisation.
+export class TopicMatcher {
+  similarity(a: string, b: string): number {
+    const left = syllabusChunker.normalizeName(a);
+    const right = syllabusChunker.normalizeName(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    if (left.includes(right) || right.includes(left)) return 0.9;
+
+    const bigrams = (text: string) => {
+      const compact = text.replace(/\s+/g, ' ');
+      return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.slice(i, i + 2));
+    };
+    const leftBigrams = bigrams(left);
+    const rightBigrams = bigrams(right);
+    const remaining = [...rightBigrams];
+    let shared = 0;
+    for (const bigram of leftBigrams) {
+      const index = remaining.indexOf(bigram);
+      if (index >= 0) {
+        shared++;
+        remaining.splice(index, 1);
+      }
+    }
+
+    return (2 * shared) / (leftBigrams.length + rightBigrams.length);
+  }
+
+  match(tree: TopicNode[], candidate: TopicCandidate): TopicTag | null {
+    const main = this.best(tree, node => node.mainTopic, candidate.topicMatch);
+
+    // The AI sometimes answers with a subtopic name in place of its main topic
+    if (!main) {
+      const subtopics = tree.flatMap(node => node.children.filter(child => child.subtopic));
+      const sub = this.best(subtopics, child => child.subtopic!, candidate.topicMatch);
+      return sub ? this.tag(sub.node, sub.score, candidate) : null;
+    }
+
+    if (candidate.subtopicMatch) {
+      const sub = this.best(main.node.children.filter(child => child.subtopic), child => child.subtopic!, candidate.subtopicMatch);
+      if (sub) return this.tag(sub.node, main.score * sub.score, candidate);
+    }
+
+    return this.tag(main.node, main.score, candidate);
+  }
+
+  // Every matched candidate once, most confident first
+  resolve(tree: TopicNode[], candidates: TopicCandidate[]): TopicTag[] {
+    const tags = new Map<string, TopicTag>();
+    for (const candidate of candidates) {
+      const tag = this.match(tree, candidate);
+      if (tag && (tags.get(tag.topicId)?.confidence ?? -1) < tag.confidence) {
+        tags.set(tag.topicId, tag);
+      }
+    }
+    return Array.from(tags.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+
+  private best<T>(items: T[], nameOf: (item: T) => string, name: string): { node: T; score: number } | null {
+    let best: { node: T; score: number } | null = null;
+    for (const item of items) {
+      const score = this.similarity(nameOf(item), name);
+      if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { node: item, score };
+      }
+    }
+    return best;
+  }
+
+  private tag(node: TopicNode, score: number, candidate: TopicCandidate): TopicTag {
+    const confidence = (candidate.confidence ?? 1) * score;
+    return { topicId: node.id, confidence: Math.round(confidence * 100) / 100 };
+  }
+}
+
+export const topicMatcher = new TopicMatcher();
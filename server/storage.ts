@@ -1,14 +1,19 @@
 import { 
   type Document, type InsertDocument,
-  type Topic, type InsertTopic,
-  type Question, type InsertQuestion,
-  type GeneratedPdf, type InsertGeneratedPdf,
+  type Topic, type InsertTopic, type TopicNode,
+  type Question, type InsertQuestion, type QuestionSearch, type QuestionSearchPage,
+  type QuestionTopic, type InsertQuestionTopic,
+  type MarkSchemeEntry, type InsertMarkSchemeEntry,
+  type GeneratedPdf, type InsertGeneratedPdf, type GeneratedPdfList, type GeneratedPdfPage,
+  type WorksheetDraft, type InsertWorksheetDraft,
   type ProcessingJob, type InsertProcessingJob,
-  documents, topics, questions, generatedPdfs, processingJobs
+  type ProcessingJobEvent, type InsertProcessingJobEvent,
+  documents, topics, questions, questionTopics, markSchemeEntries, generatedPdfs, worksheetDrafts, processingJobs, processingJobEvents
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { appEvents } from "./services/events";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, lte, notInArray, or, sql, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // Documents
@@ -17,44 +22,193 @@ export interface IStorage {
   getDocumentsByType(type: string): Promise<Document[]>;
   updateDocumentStatus(id: string, status: string): Promise<void>;
   updateDocumentContent(id: string, content: string): Promise<void>;
+  updateDocumentMetadata(id: string, metadata: unknown): Promise<void>;
+  getDocumentsBySitting(syllabusCode: string, paperYear: number, paperSeries: string): Promise<Document[]>;
+  getDocumentByHash(sha256: string): Promise<Document | undefined>; // matches metadata.sha256
+  updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document | undefined>;
+  deleteDocument(id: string): Promise<Document | undefined>; // with its questions and marking scheme entries; its topics are kept
 
   // Topics
   createTopic(topic: InsertTopic): Promise<Topic>;
+  upsertTopic(topic: InsertTopic): Promise<Topic>; // keyed on (subject, mainTopic, subtopic)
   getTopic(id: string): Promise<Topic | undefined>;
   getTopicsByDocument(documentId: string): Promise<Topic[]>;
   getTopicsBySubject(subject: string): Promise<Topic[]>;
+  getTopicChildren(parentId: string): Promise<Topic[]>;
+  getTopicTree(subject: string): Promise<TopicNode[]>;
+  updateTopic(id: string, updates: Partial<InsertTopic>): Promise<Topic | undefined>; // renaming a main topic renames it on its subtopics
+  deleteTopic(id: string): Promise<Topic | undefined>; // with its subtopics; questions keep their other topics
 
   // Questions
   createQuestion(question: InsertQuestion): Promise<Question>;
+  upsertQuestion(question: InsertQuestion): Promise<Question>; // keyed on (documentId, questionNumber)
   getQuestion(id: string): Promise<Question | undefined>;
-  getQuestionsByTopic(topicId: string): Promise<Question[]>;
+  getQuestionsByTopic(topicId: string): Promise<Question[]>; // primary topic or tagged with it
   getQuestionsByDocument(documentId: string): Promise<Question[]>;
+  searchQuestions(search: QuestionSearch): Promise<QuestionSearchPage>;
+  updateQuestion(id: string, updates: Partial<InsertQuestion>): Promise<Question | undefined>;
+  deleteQuestion(id: string): Promise<Question | undefined>;
+
+  // Question topic tags
+  setQuestionTopics(questionId: string, tags: Omit<InsertQuestionTopic, 'questionId'>[]): Promise<QuestionTopic[]>; // replaces existing tags
+  getQuestionTopics(questionId: string): Promise<QuestionTopic[]>;
+
+  // Marking scheme entries
+  createMarkSchemeEntry(entry: InsertMarkSchemeEntry): Promise<MarkSchemeEntry>;
+  getMarkSchemeEntriesByPaperCode(paperCode: string): Promise<MarkSchemeEntry[]>;
+  deleteMarkSchemeEntriesByDocument(documentId: string): Promise<void>;
 
   // Generated PDFs
   createGeneratedPdf(pdf: InsertGeneratedPdf): Promise<GeneratedPdf>;
   getGeneratedPdf(id: string): Promise<GeneratedPdf | undefined>;
-  getRecentGeneratedPdfs(limit?: number): Promise<GeneratedPdf[]>;
+  listGeneratedPdfs(list: GeneratedPdfList): Promise<GeneratedPdfPage>;
+  getGeneratedPdfFiles(): Promise<GeneratedPdfFile[]>;
+  // Unpinned PDFs created before createdBefore, or beyond the newest keepNewest unpinned ones; null skips that rule
+  getExpiredGeneratedPdfs(createdBefore: Date | null, keepNewest: number | null): Promise<GeneratedPdf[]>;
+  updateGeneratedPdf(id: string, updates: Partial<InsertGeneratedPdf>): Promise<GeneratedPdf | undefined>;
+  deleteGeneratedPdf(id: string): Promise<GeneratedPdf | undefined>; // the caller removes the file
+
+  // Worksheet drafts
+  createWorksheetDraft(draft: InsertWorksheetDraft): Promise<WorksheetDraft>;
+  getWorksheetDraft(id: string): Promise<WorksheetDraft | undefined>;
+  getWorksheetDrafts(): Promise<WorksheetDraft[]>; // most recently changed first
+  updateWorksheetDraft(id: string, updates: Partial<InsertWorksheetDraft>): Promise<WorksheetDraft | undefined>;
+  deleteWorksheetDraft(id: string): Promise<boolean>;
 
   // Processing Jobs
   createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob>;
   getProcessingJob(id: string): Promise<ProcessingJob | undefined>;
   updateProcessingJob(id: string, updates: Partial<ProcessingJob>): Promise<void>;
   getActiveProcessingJobs(): Promise<ProcessingJob[]>;
+  getRecentProcessingJobs(limit?: number, filters?: { type?: string; status?: string }): Promise<ProcessingJob[]>; // newest first
+  // Leases the oldest due pending job, or a processing job whose worker stopped renewing its lease.
+  // excludeIds are jobs the worker is still running, which a missed heartbeat must not hand it twice.
+  claimProcessingJob(workerId: string, leaseMs: number, excludeIds?: string[]): Promise<ProcessingJob | undefined>;
+  renewProcessingJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean>; // false once the lease is lost
+  addProcessingJobEvent(event: InsertProcessingJobEvent): Promise<ProcessingJobEvent>;
+  getProcessingJobEvents(jobId: string): Promise<ProcessingJobEvent[]>; // oldest first
+}
+
+// Nests a subject's topics under their parents, siblings in syllabus order
+export function buildTopicTree(topicList: Topic[]): TopicNode[] {
+  const nodes = new Map<string, TopicNode>(topicList.map(topic => [topic.id, { ...topic, children: [] }]));
+  const roots: TopicNode[] = [];
+
+  // Rows saved before parentId existed are attached to the main topic row of the same name
+  const legacyParents = new Map<string, TopicNode>();
+  for (const node of Array.from(nodes.values())) {
+    if (!node.parentId && !node.subtopic) legacyParents.set(node.mainTopic, node);
+  }
+
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.parentId
+      ? nodes.get(node.parentId)
+      : node.subtopic ? legacyParents.get(node.mainTopic) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sortLevel = (level: TopicNode[]) => {
+    level.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0)
+      || (a.code || '').localeCompare(b.code || '', undefined, { numeric: true }));
+    level.forEach(node => sortLevel(node.children));
+  };
+  sortLevel(roots);
+
+  return roots;
+}
+
+type QuestionSort = NonNullable<QuestionSearch['sort']>;
+
+// What the retention sweep needs to know about every generated PDF
+export type GeneratedPdfFile = Pick<GeneratedPdf, 'id' | 'filePath' | 'fileSize'>;
+
+// Keyset position after the last question of a page: its sort value and id, so
+// pages don't shift when questions are added while paging
+interface SearchCursor {
+  value: number;
+  id: string;
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeSearchCursor(cursor: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof parsed?.value === 'number' && typeof parsed?.id === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Relevance only means something when there's search text
+function resolveSort(search: QuestionSearch): QuestionSort {
+  const sort = search.sort ?? (search.q ? 'relevance' : 'created');
+  return sort === 'relevance' && !search.q ? 'created' : sort;
+}
+
+// Papers store their year as free text ("2019", "June 2019") when it came from the AI
+function parseYear(paperYear: string | null): number | null {
+  const match = paperYear?.match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+// In-memory counterpart of Postgres web search: every term must start a word of the text
+// ("force" finds "forces"), "quoted phrases" must appear verbatim and -terms must not appear.
+// Returns the share of the text's words that matched, or null when the text doesn't match.
+function textSearchRank(text: string, query: string): number | null {
+  const lowerText = text.toLowerCase();
+  const words = lowerText.match(/[a-z0-9]+/g) || [];
+  let matched = 0;
+
+  for (const [, negated, phrase, term] of Array.from(query.toLowerCase().matchAll(/(-?)(?:"([^"]+)"|(\S+))/g))) {
+    const found = phrase
+      ? lowerText.includes(phrase)
+      : (term.match(/[a-z0-9]+/g) || []).every(part => words.some(word => word.startsWith(part)));
+    if (Boolean(negated) === found) return null;
+    if (!negated) {
+      const parts = (phrase || term).match(/[a-z0-9]+/g) || [];
+      matched += words.filter(word => parts.some(part => word.startsWith(part))).length;
+    }
+  }
+
+  return words.length > 0 ? matched / words.length : 0;
+}
+
+// A main topic's subtopic rows, including legacy rows linked only by the main topic's name
+function subtopicsOf(topic: Topic, subjectTopics: Topic[]): Topic[] {
+  if (topic.subtopic) return [];
+  return subjectTopics.filter(other => other.id !== topic.id && other.subject === topic.subject && (
+    other.parentId === topic.id || (!other.parentId && other.subtopic && other.mainTopic === topic.mainTopic)
+  ));
 }
 
 export class MemStorage implements IStorage {
   private documents: Map<string, Document>;
   private topics: Map<string, Topic>;
   private questions: Map<string, Question>;
+  private questionTopics: Map<string, QuestionTopic>;
+  private markSchemeEntries: Map<string, MarkSchemeEntry>;
   private generatedPdfs: Map<string, GeneratedPdf>;
+  private worksheetDrafts: Map<string, WorksheetDraft>;
   private processingJobs: Map<string, ProcessingJob>;
+  private processingJobEvents: ProcessingJobEvent[];
 
   constructor() {
     this.documents = new Map();
     this.topics = new Map();
     this.questions = new Map();
+    this.questionTopics = new Map();
+    this.markSchemeEntries = new Map();
     this.generatedPdfs = new Map();
+    this.worksheetDrafts = new Map();
     this.processingJobs = new Map();
+    this.processingJobEvents = [];
   }
 
   // Documents
@@ -67,6 +221,12 @@ export class MemStorage implements IStorage {
       subject: insertDocument.subject || null,
       processingStatus: insertDocument.processingStatus || null,
       metadata: insertDocument.metadata || null,
+      syllabusCode: insertDocument.syllabusCode || null,
+      paperYear: insertDocument.paperYear ?? null,
+      paperSeries: insertDocument.paperSeries || null,
+      component: insertDocument.component ?? null,
+      variant: insertDocument.variant ?? null,
+      paperKind: insertDocument.paperKind || null,
       createdAt: new Date() 
     };
     this.documents.set(id, document);
@@ -86,6 +246,7 @@ export class MemStorage implements IStorage {
     if (document) {
       document.processingStatus = status;
       this.documents.set(id, document);
+      appEvents.publish({ type: 'document', documentId: id, status });
     }
   }
 
@@ -99,6 +260,49 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateDocumentMetadata(id: string, metadata: unknown): Promise<void> {
+    const document = this.documents.get(id);
+    if (document) {
+      document.metadata = metadata;
+      this.documents.set(id, document);
+    }
+  }
+
+  async getDocumentsBySitting(syllabusCode: string, paperYear: number, paperSeries: string): Promise<Document[]> {
+    return Array.from(this.documents.values()).filter(doc =>
+      doc.syllabusCode === syllabusCode && doc.paperYear === paperYear && doc.paperSeries === paperSeries
+    );
+  }
+
+  async getDocumentByHash(sha256: string): Promise<Document | undefined> {
+    return Array.from(this.documents.values()).find(doc => (doc.metadata as any)?.sha256 === sha256);
+  }
+
+  async updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document | undefined> {
+    const document = this.documents.get(id);
+    if (!document) return undefined;
+
+    const updatedDocument: Document = { ...document, ...updates };
+    this.documents.set(id, updatedDocument);
+    return updatedDocument;
+  }
+
+  async deleteDocument(id: string): Promise<Document | undefined> {
+    const document = this.documents.get(id);
+    if (!document) return undefined;
+
+    for (const question of await this.getQuestionsByDocument(id)) {
+      await this.deleteQuestion(question.id);
+    }
+    await this.deleteMarkSchemeEntriesByDocument(id);
+    for (const topic of await this.getTopicsByDocument(id)) {
+      topic.documentId = null;
+    }
+
+    this.documents.delete(id);
+    return document;
+  }
+
   // Topics
   async createTopic(insertTopic: InsertTopic): Promise<Topic> {
     const id = randomUUID();
@@ -107,10 +311,37 @@ export class MemStorage implements IStorage {
       id, 
       documentId: insertTopic.documentId || null,
       subtopic: insertTopic.subtopic || null,
+      parentId: insertTopic.parentId || null,
+      code: insertTopic.code || null,
+      sortOrder: insertTopic.sortOrder ?? 0,
+      learningObjectives: insertTopic.learningObjectives || null,
       description: insertTopic.description || null,
       createdAt: new Date() 
     };
     this.topics.set(id, topic);
+    appEvents.publish({ type: 'topic', topicId: id, subject: topic.subject });
+    return topic;
+  }
+
+  async upsertTopic(insertTopic: InsertTopic): Promise<Topic> {
+    const existing = Array.from(this.topics.values()).find(topic =>
+      topic.subject === insertTopic.subject &&
+      topic.mainTopic === insertTopic.mainTopic &&
+      topic.subtopic === (insertTopic.subtopic || null)
+    );
+    if (!existing) return this.createTopic(insertTopic);
+
+    const topic: Topic = {
+      ...existing,
+      documentId: insertTopic.documentId || existing.documentId,
+      parentId: insertTopic.parentId || existing.parentId,
+      code: insertTopic.code || existing.code,
+      sortOrder: insertTopic.sortOrder ?? existing.sortOrder,
+      learningObjectives: insertTopic.learningObjectives || existing.learningObjectives,
+      description: insertTopic.description || existing.description
+    };
+    this.topics.set(topic.id, topic);
+    appEvents.publish({ type: 'topic', topicId: topic.id, subject: topic.subject });
     return topic;
   }
 
@@ -126,6 +357,53 @@ export class MemStorage implements IStorage {
     return Array.from(this.topics.values()).filter(topic => topic.subject === subject);
   }
 
+  async getTopicChildren(parentId: string): Promise<Topic[]> {
+    return Array.from(this.topics.values())
+      .filter(topic => topic.parentId === parentId)
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+  }
+
+  async getTopicTree(subject: string): Promise<TopicNode[]> {
+    return buildTopicTree(await this.getTopicsBySubject(subject));
+  }
+
+  async updateTopic(id: string, updates: Partial<InsertTopic>): Promise<Topic | undefined> {
+    const topic = this.topics.get(id);
+    if (!topic) return undefined;
+
+    if (updates.mainTopic && updates.mainTopic !== topic.mainTopic && !topic.subtopic) {
+      for (const subtopic of subtopicsOf(topic, Array.from(this.topics.values()))) {
+        subtopic.mainTopic = updates.mainTopic;
+      }
+    }
+
+    const updatedTopic: Topic = { ...topic, ...updates };
+    this.topics.set(id, updatedTopic);
+    return updatedTopic;
+  }
+
+  async deleteTopic(id: string): Promise<Topic | undefined> {
+    const topic = this.topics.get(id);
+    if (!topic) return undefined;
+
+    const removedIds = new Set([id, ...subtopicsOf(topic, Array.from(this.topics.values())).map(subtopic => subtopic.id)]);
+    for (const [tagId, tag] of Array.from(this.questionTopics.entries())) {
+      if (removedIds.has(tag.topicId)) this.questionTopics.delete(tagId);
+    }
+    for (const question of Array.from(this.questions.values())) {
+      if (question.topicId && removedIds.has(question.topicId)) {
+        const [bestTag] = await this.getQuestionTopics(question.id);
+        question.topicId = bestTag?.topicId || null;
+      }
+    }
+    for (const pdf of Array.from(this.generatedPdfs.values())) {
+      if (pdf.topicId && removedIds.has(pdf.topicId)) pdf.topicId = null;
+    }
+
+    removedIds.forEach(removedId => this.topics.delete(removedId));
+    return topic;
+  }
+
   // Questions
   async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
     const id = randomUUID();
@@ -144,6 +422,33 @@ export class MemStorage implements IStorage {
       createdAt: new Date() 
     };
     this.questions.set(id, question);
+    appEvents.publish({ type: 'question', questionId: id, documentId: question.documentId, topicId: question.topicId });
+    return question;
+  }
+
+  async upsertQuestion(insertQuestion: InsertQuestion): Promise<Question> {
+    // Questions without a number have no natural key and are always added
+    const existing = insertQuestion.documentId && insertQuestion.questionNumber
+      ? Array.from(this.questions.values()).find(question =>
+          question.documentId === insertQuestion.documentId &&
+          question.questionNumber === insertQuestion.questionNumber
+        )
+      : undefined;
+    if (!existing) return this.createQuestion(insertQuestion);
+
+    const question: Question = {
+      ...existing,
+      ...insertQuestion,
+      topicId: insertQuestion.topicId || null,
+      paperYear: insertQuestion.paperYear || null,
+      paperSession: insertQuestion.paperSession || null,
+      hasVectorDiagram: insertQuestion.hasVectorDiagram || null,
+      diagramData: insertQuestion.diagramData || null,
+      difficulty: insertQuestion.difficulty || null,
+      marks: insertQuestion.marks || null
+    };
+    this.questions.set(question.id, question);
+    appEvents.publish({ type: 'question', questionId: question.id, documentId: question.documentId, topicId: question.topicId });
     return question;
   }
 
@@ -152,13 +457,144 @@ export class MemStorage implements IStorage {
   }
 
   async getQuestionsByTopic(topicId: string): Promise<Question[]> {
-    return Array.from(this.questions.values()).filter(question => question.topicId === topicId);
+    const tagged = new Set(
+      Array.from(this.questionTopics.values()).filter(tag => tag.topicId === topicId).map(tag => tag.questionId)
+    );
+    return Array.from(this.questions.values()).filter(question => question.topicId === topicId || tagged.has(question.id));
   }
 
   async getQuestionsByDocument(documentId: string): Promise<Question[]> {
     return Array.from(this.questions.values()).filter(question => question.documentId === documentId);
   }
 
+  async searchQuestions(search: QuestionSearch): Promise<QuestionSearchPage> {
+    let topicIds: Set<string> | null = null;
+    if (search.topicId) {
+      const topic = this.topics.get(search.topicId);
+      if (!topic) return { questions: [], nextCursor: null };
+      topicIds = new Set([topic.id, ...subtopicsOf(topic, Array.from(this.topics.values())).map(subtopic => subtopic.id)]);
+    }
+    const taggedIds = new Set(
+      Array.from(this.questionTopics.values()).filter(tag => topicIds?.has(tag.topicId)).map(tag => tag.questionId)
+    );
+
+    const sort = resolveSort(search);
+    const rows: Array<{ question: Question; value: number }> = [];
+
+    for (const question of Array.from(this.questions.values())) {
+      const document = question.documentId ? this.documents.get(question.documentId) : undefined;
+      const year = document?.paperYear ?? parseYear(question.paperYear);
+      const marks = question.marks ?? 0;
+
+      if (search.subject && document?.subject !== search.subject) continue;
+      if (topicIds && !(question.topicId && topicIds.has(question.topicId)) && !taggedIds.has(question.id)) continue;
+      if (search.yearFrom !== undefined && (year === null || year < search.yearFrom)) continue;
+      if (search.yearTo !== undefined && (year === null || year > search.yearTo)) continue;
+      if (search.session && question.paperSession !== search.session) continue;
+      if (search.component !== undefined && document?.component !== search.component) continue;
+      if (search.difficulty && question.difficulty !== search.difficulty) continue;
+      if (search.marksMin !== undefined && (question.marks === null || question.marks < search.marksMin)) continue;
+      if (search.marksMax !== undefined && (question.marks === null || question.marks > search.marksMax)) continue;
+      if (search.hasDiagram !== undefined && Boolean(question.hasVectorDiagram) !== search.hasDiagram) continue;
+
+      const rank = search.q ? textSearchRank(question.questionText, search.q) : 0;
+      if (rank === null) continue;
+
+      const value = sort === 'relevance' ? rank
+        : sort === 'year' ? year ?? 0
+        : sort === 'marks' ? marks
+        : question.createdAt?.getTime() ?? 0;
+      rows.push({ question, value });
+    }
+
+    const direction = search.order === 'asc' ? 1 : -1;
+    const compare = (a: { value: number; id: string }, b: { value: number; id: string }) =>
+      direction * (a.value - b.value || a.id.localeCompare(b.id));
+
+    const cursor = search.cursor ? decodeSearchCursor(search.cursor) : null;
+    const remaining = rows
+      .map(row => ({ ...row, id: row.question.id }))
+      .filter(row => !cursor || compare(row, cursor) > 0)
+      .sort(compare);
+
+    const page = remaining.slice(0, search.limit);
+    const last = page[page.length - 1];
+    return {
+      questions: page.map(row => row.question),
+      nextCursor: remaining.length > search.limit ? encodeSearchCursor({ value: last.value, id: last.id }) : null
+    };
+  }
+
+  async updateQuestion(id: string, updates: Partial<InsertQuestion>): Promise<Question | undefined> {
+    const question = this.questions.get(id);
+    if (!question) return undefined;
+
+    const updatedQuestion: Question = { ...question, ...updates };
+    this.questions.set(id, updatedQuestion);
+    return updatedQuestion;
+  }
+
+  async deleteQuestion(id: string): Promise<Question | undefined> {
+    const question = this.questions.get(id);
+    if (!question) return undefined;
+
+    await this.setQuestionTopics(id, []);
+    this.questions.delete(id);
+    return question;
+  }
+
+  // Question topic tags
+  async setQuestionTopics(questionId: string, tags: Omit<InsertQuestionTopic, 'questionId'>[]): Promise<QuestionTopic[]> {
+    for (const [id, tag] of Array.from(this.questionTopics.entries())) {
+      if (tag.questionId === questionId) this.questionTopics.delete(id);
+    }
+
+    return tags.map(tag => {
+      const questionTopic: QuestionTopic = {
+        id: randomUUID(),
+        questionId,
+        topicId: tag.topicId,
+        confidence: tag.confidence ?? 1,
+        createdAt: new Date()
+      };
+      this.questionTopics.set(questionTopic.id, questionTopic);
+      return questionTopic;
+    });
+  }
+
+  async getQuestionTopics(questionId: string): Promise<QuestionTopic[]> {
+    return Array.from(this.questionTopics.values())
+      .filter(tag => tag.questionId === questionId)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  // Marking scheme entries
+  async createMarkSchemeEntry(insertEntry: InsertMarkSchemeEntry): Promise<MarkSchemeEntry> {
+    const id = randomUUID();
+    const entry: MarkSchemeEntry = {
+      ...insertEntry,
+      id,
+      documentId: insertEntry.documentId || null,
+      paperCode: insertEntry.paperCode || null,
+      marks: insertEntry.marks ?? null,
+      createdAt: new Date()
+    };
+    this.markSchemeEntries.set(id, entry);
+    return entry;
+  }
+
+  async getMarkSchemeEntriesByPaperCode(paperCode: string): Promise<MarkSchemeEntry[]> {
+    return Array.from(this.markSchemeEntries.values()).filter(entry => entry.paperCode === paperCode);
+  }
+
+  async deleteMarkSchemeEntriesByDocument(documentId: string): Promise<void> {
+    for (const [id, entry] of Array.from(this.markSchemeEntries.entries())) {
+      if (entry.documentId === documentId) {
+        this.markSchemeEntries.delete(id);
+      }
+    }
+  }
+
   // Generated PDFs
   async createGeneratedPdf(insertPdf: InsertGeneratedPdf): Promise<GeneratedPdf> {
     const id = randomUUID();
@@ -168,6 +604,9 @@ export class MemStorage implements IStorage {
       topicId: insertPdf.topicId || null,
       subtopic: insertPdf.subtopic || null,
       configuration: insertPdf.configuration || null,
+      snapshot: insertPdf.snapshot || null,
+      fileSize: insertPdf.fileSize ?? null,
+      pinned: insertPdf.pinned ?? false,
       createdAt: new Date() 
     };
     this.generatedPdfs.set(id, pdf);
@@ -178,10 +617,85 @@ export class MemStorage implements IStorage {
     return this.generatedPdfs.get(id);
   }
 
-  async getRecentGeneratedPdfs(limit: number = 10): Promise<GeneratedPdf[]> {
+  async listGeneratedPdfs(list: GeneratedPdfList): Promise<GeneratedPdfPage> {
+    const cursor = list.cursor ? decodeSearchCursor(list.cursor) : null;
+    const rows = Array.from(this.generatedPdfs.values())
+      .filter(pdf => list.pinned === undefined || pdf.pinned === list.pinned)
+      .map(pdf => ({ pdf, value: pdf.createdAt?.getTime() ?? 0, id: pdf.id }));
+    const compare = (a: { value: number; id: string }, b: { value: number; id: string }) =>
+      b.value - a.value || b.id.localeCompare(a.id);
+
+    const remaining = rows
+      .filter(row => !cursor || compare(row, cursor) > 0)
+      .sort(compare);
+
+    const page = remaining.slice(0, list.limit);
+    const last = page[page.length - 1];
+    return {
+      pdfs: page.map(row => row.pdf),
+      nextCursor: remaining.length > list.limit ? encodeSearchCursor({ value: last.value, id: last.id }) : null
+    };
+  }
+
+  async getGeneratedPdfFiles(): Promise<GeneratedPdfFile[]> {
     return Array.from(this.generatedPdfs.values())
-      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
-      .slice(0, limit);
+      .map(pdf => ({ id: pdf.id, filePath: pdf.filePath, fileSize: pdf.fileSize }));
+  }
+
+  async getExpiredGeneratedPdfs(createdBefore: Date | null, keepNewest: number | null): Promise<GeneratedPdf[]> {
+    const unpinned = Array.from(this.generatedPdfs.values())
+      .filter(pdf => !pdf.pinned)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+
+    return unpinned.filter((pdf, index) =>
+      (createdBefore !== null && pdf.createdAt! < createdBefore) ||
+      (keepNewest !== null && index >= keepNewest)
+    );
+  }
+
+  async updateGeneratedPdf(id: string, updates: Partial<InsertGeneratedPdf>): Promise<GeneratedPdf | undefined> {
+    const pdf = this.generatedPdfs.get(id);
+    if (!pdf) return undefined;
+
+    const updatedPdf: GeneratedPdf = { ...pdf, ...updates };
+    this.generatedPdfs.set(id, updatedPdf);
+    return updatedPdf;
+  }
+
+  async deleteGeneratedPdf(id: string): Promise<GeneratedPdf | undefined> {
+    const pdf = this.generatedPdfs.get(id);
+    this.generatedPdfs.delete(id);
+    return pdf;
+  }
+
+  // Worksheet drafts
+  async createWorksheetDraft(insertDraft: InsertWorksheetDraft): Promise<WorksheetDraft> {
+    const now = new Date();
+    const draft: WorksheetDraft = { ...insertDraft, id: randomUUID(), createdAt: now, updatedAt: now };
+    this.worksheetDrafts.set(draft.id, draft);
+    return draft;
+  }
+
+  async getWorksheetDraft(id: string): Promise<WorksheetDraft | undefined> {
+    return this.worksheetDrafts.get(id);
+  }
+
+  async getWorksheetDrafts(): Promise<WorksheetDraft[]> {
+    return Array.from(this.worksheetDrafts.values())
+      .sort((a, b) => b.updatedAt!.getTime() - a.updatedAt!.getTime());
+  }
+
+  async updateWorksheetDraft(id: string, updates: Partial<InsertWorksheetDraft>): Promise<WorksheetDraft | undefined> {
+    const draft = this.worksheetDrafts.get(id);
+    if (!draft) return undefined;
+
+    const updatedDraft: WorksheetDraft = { ...draft, ...updates, updatedAt: new Date() };
+    this.worksheetDrafts.set(id, updatedDraft);
+    return updatedDraft;
+  }
+
+  async deleteWorksheetDraft(id: string): Promise<boolean> {
+    return this.worksheetDrafts.delete(id);
   }
 
   // Processing Jobs
@@ -195,11 +709,19 @@ export class MemStorage implements IStorage {
       statusMessage: insertJob.statusMessage || null,
       documentIds: insertJob.documentIds || null,
       result: insertJob.result || null,
+      rejects: insertJob.rejects || null,
       error: insertJob.error || null,
+      payload: insertJob.payload || null,
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      runAfter: insertJob.runAfter || new Date(),
+      leaseOwner: insertJob.leaseOwner || null,
+      leaseExpiresAt: insertJob.leaseExpiresAt || null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
     this.processingJobs.set(id, job);
+    appEvents.publish({ type: 'job', job });
     return job;
   }
 
@@ -216,6 +738,7 @@ export class MemStorage implements IStorage {
         updatedAt: new Date() 
       };
       this.processingJobs.set(id, updatedJob);
+      appEvents.publish({ type: 'job', job: updatedJob });
     }
   }
 
@@ -224,6 +747,62 @@ export class MemStorage implements IStorage {
       job => job.status === 'pending' || job.status === 'processing'
     );
   }
+
+  async getRecentProcessingJobs(limit: number = 20, filters: { type?: string; status?: string } = {}): Promise<ProcessingJob[]> {
+    return Array.from(this.processingJobs.values())
+      .filter(job => (!filters.type || job.type === filters.type) && (!filters.status || job.status === filters.status))
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async claimProcessingJob(workerId: string, leaseMs: number, excludeIds: string[] = []): Promise<ProcessingJob | undefined> {
+    const now = new Date();
+    const job = Array.from(this.processingJobs.values())
+      .filter(job => !excludeIds.includes(job.id) && (
+        (job.status === 'pending' && (!job.runAfter || job.runAfter <= now)) ||
+        (job.status === 'processing' && job.leaseExpiresAt !== null && job.leaseExpiresAt < now)
+      ))
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())[0];
+    if (!job) return undefined;
+
+    const claimedJob: ProcessingJob = {
+      ...job,
+      status: 'processing',
+      leaseOwner: workerId,
+      leaseExpiresAt: new Date(now.getTime() + leaseMs),
+      attempts: job.attempts + 1,
+      updatedAt: now
+    };
+    this.processingJobs.set(job.id, claimedJob);
+    appEvents.publish({ type: 'job', job: claimedJob });
+    return claimedJob;
+  }
+
+  async renewProcessingJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const job = this.processingJobs.get(id);
+    if (!job || job.status !== 'processing' || job.leaseOwner !== workerId) return false;
+
+    job.leaseExpiresAt = new Date(Date.now() + leaseMs);
+    return true;
+  }
+
+  async addProcessingJobEvent(insertEvent: InsertProcessingJobEvent): Promise<ProcessingJobEvent> {
+    const event: ProcessingJobEvent = {
+      ...insertEvent,
+      id: randomUUID(),
+      documentId: insertEvent.documentId || null,
+      level: insertEvent.level || 'info',
+      data: insertEvent.data || null,
+      createdAt: new Date()
+    };
+    this.processingJobEvents.push(event);
+    appEvents.publish({ type: 'job_event', event });
+    return event;
+  }
+
+  async getProcessingJobEvents(jobId: string): Promise<ProcessingJobEvent[]> {
+    return this.processingJobEvents.filter(event => event.jobId === jobId);
+  }
 }
 
 // DatabaseStorage implementation
@@ -247,6 +826,7 @@ export class DatabaseStorage implements IStorage {
     await db.update(documents)
       .set({ processingStatus: status })
       .where(eq(documents.id, id));
+    appEvents.publish({ type: 'document', documentId: id, status });
   }
 
   async updateDocumentContent(id: string, content: string): Promise<void> {
@@ -255,9 +835,69 @@ export class DatabaseStorage implements IStorage {
       .where(eq(documents.id, id));
   }
 
+  async updateDocumentMetadata(id: string, metadata: unknown): Promise<void> {
+    await db.update(documents)
+      .set({ metadata })
+      .where(eq(documents.id, id));
+  }
+
+  async getDocumentsBySitting(syllabusCode: string, paperYear: number, paperSeries: string): Promise<Document[]> {
+    return await db.select().from(documents).where(and(
+      eq(documents.syllabusCode, syllabusCode),
+      eq(documents.paperYear, paperYear),
+      eq(documents.paperSeries, paperSeries)
+    ));
+  }
+
+  async getDocumentByHash(sha256: string): Promise<Document | undefined> {
+    const [document] = await db.select().from(documents)
+      .where(sql`${documents.metadata}->>'sha256' = ${sha256}`)
+      .orderBy(asc(documents.createdAt))
+      .limit(1);
+    return document || undefined;
+  }
+
+  async updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document | undefined> {
+    const [document] = await db.update(documents).set(updates).where(eq(documents.id, id)).returning();
+    return document || undefined;
+  }
+
+  async deleteDocument(id: string): Promise<Document | undefined> {
+    return await db.transaction(async (tx) => {
+      const documentQuestions = tx.select({ id: questions.id }).from(questions).where(eq(questions.documentId, id));
+      await tx.delete(questionTopics).where(inArray(questionTopics.questionId, documentQuestions));
+      await tx.delete(questions).where(eq(questions.documentId, id));
+      await tx.delete(markSchemeEntries).where(eq(markSchemeEntries.documentId, id));
+      await tx.update(topics).set({ documentId: null }).where(eq(topics.documentId, id));
+
+      const [document] = await tx.delete(documents).where(eq(documents.id, id)).returning();
+      return document || undefined;
+    });
+  }
+
   // Topics
   async createTopic(insertTopic: InsertTopic): Promise<Topic> {
     const [topic] = await db.insert(topics).values(insertTopic).returning();
+    appEvents.publish({ type: 'topic', topicId: topic.id, subject: topic.subject });
+    return topic;
+  }
+
+  async upsertTopic(insertTopic: InsertTopic): Promise<Topic> {
+    const [topic] = await db.insert(topics)
+      .values(insertTopic)
+      .onConflictDoUpdate({
+        target: [topics.subject, topics.mainTopic, topics.subtopic],
+        set: {
+          documentId: sql`coalesce(excluded.document_id, ${topics.documentId})`,
+          parentId: sql`coalesce(excluded.parent_id, ${topics.parentId})`,
+          code: sql`coalesce(excluded.code, ${topics.code})`,
+          sortOrder: sql`coalesce(excluded.sort_order, ${topics.sortOrder})`,
+          learningObjectives: sql`coalesce(excluded.learning_objectives, ${topics.learningObjectives})`,
+          description: sql`coalesce(excluded.description, ${topics.description})`
+        }
+      })
+      .returning();
+    appEvents.publish({ type: 'topic', topicId: topic.id, subject: topic.subject });
     return topic;
   }
 
@@ -274,9 +914,83 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(topics).where(eq(topics.subject, subject));
   }
 
+  async getTopicChildren(parentId: string): Promise<Topic[]> {
+    return await db.select().from(topics).where(eq(topics.parentId, parentId)).orderBy(asc(topics.sortOrder));
+  }
+
+  async getTopicTree(subject: string): Promise<TopicNode[]> {
+    return buildTopicTree(await this.getTopicsBySubject(subject));
+  }
+
+  async updateTopic(id: string, updates: Partial<InsertTopic>): Promise<Topic | undefined> {
+    return await db.transaction(async (tx) => {
+      const [topic] = await tx.select().from(topics).where(eq(topics.id, id));
+      if (!topic) return undefined;
+
+      if (updates.mainTopic && updates.mainTopic !== topic.mainTopic && !topic.subtopic) {
+        const subtopicIds = subtopicsOf(topic, await tx.select().from(topics).where(eq(topics.subject, topic.subject))).map(subtopic => subtopic.id);
+        if (subtopicIds.length > 0) {
+          await tx.update(topics).set({ mainTopic: updates.mainTopic }).where(inArray(topics.id, subtopicIds));
+        }
+      }
+
+      const [updatedTopic] = await tx.update(topics).set(updates).where(eq(topics.id, id)).returning();
+      return updatedTopic;
+    });
+  }
+
+  async deleteTopic(id: string): Promise<Topic | undefined> {
+    return await db.transaction(async (tx) => {
+      const [topic] = await tx.select().from(topics).where(eq(topics.id, id));
+      if (!topic) return undefined;
+
+      const subjectTopics = await tx.select().from(topics).where(eq(topics.subject, topic.subject));
+      const removedIds = [id, ...subtopicsOf(topic, subjectTopics).map(subtopic => subtopic.id)];
+
+      await tx.delete(questionTopics).where(inArray(questionTopics.topicId, removedIds));
+      // Questions filed under a removed topic move to their most confident remaining tag
+      await tx.update(questions)
+        .set({
+          topicId: sql`(select ${questionTopics.topicId} from ${questionTopics} where ${questionTopics.questionId} = ${questions.id} order by ${questionTopics.confidence} desc limit 1)`
+        })
+        .where(inArray(questions.topicId, removedIds));
+      await tx.update(generatedPdfs).set({ topicId: null }).where(inArray(generatedPdfs.topicId, removedIds));
+      await tx.delete(topics).where(inArray(topics.id, removedIds));
+
+      return topic;
+    });
+  }
+
   // Questions
   async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
     const [question] = await db.insert(questions).values(insertQuestion).returning();
+    appEvents.publish({ type: 'question', questionId: question.id, documentId: question.documentId, topicId: question.topicId });
+    return question;
+  }
+
+  async upsertQuestion(insertQuestion: InsertQuestion): Promise<Question> {
+    // Questions without a number have no natural key and are always added
+    if (!insertQuestion.documentId || !insertQuestion.questionNumber) {
+      return this.createQuestion(insertQuestion);
+    }
+
+    const [question] = await db.insert(questions)
+      .values(insertQuestion)
+      .onConflictDoUpdate({
+        target: [questions.documentId, questions.questionNumber],
+        set: {
+          topicId: insertQuestion.topicId ?? null,
+          questionText: insertQuestion.questionText,
+          paperYear: insertQuestion.paperYear ?? null,
+          paperSession: insertQuestion.paperSession ?? null,
+          hasVectorDiagram: insertQuestion.hasVectorDiagram ?? false,
+          diagramData: insertQuestion.diagramData ?? null,
+          difficulty: insertQuestion.difficulty ?? null,
+          marks: insertQuestion.marks ?? null
+        }
+      })
+      .returning();
+    appEvents.publish({ type: 'question', questionId: question.id, documentId: question.documentId, topicId: question.topicId });
     return question;
   }
 
@@ -286,13 +1000,118 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getQuestionsByTopic(topicId: string): Promise<Question[]> {
-    return await db.select().from(questions).where(eq(questions.topicId, topicId));
+    const tagged = db.select({ questionId: questionTopics.questionId })
+      .from(questionTopics)
+      .where(eq(questionTopics.topicId, topicId));
+    return await db.select().from(questions).where(or(eq(questions.topicId, topicId), inArray(questions.id, tagged)));
   }
 
   async getQuestionsByDocument(documentId: string): Promise<Question[]> {
     return await db.select().from(questions).where(eq(questions.documentId, documentId));
   }
 
+  async searchQuestions(search: QuestionSearch): Promise<QuestionSearchPage> {
+    const conditions: SQL[] = [];
+    const year = sql`coalesce(${documents.paperYear}, substring(${questions.paperYear} from '[0-9]{4}')::int)`;
+    // Same expression as the GIN index on question_text, so the index is used
+    const textVector = sql`to_tsvector('english', ${questions.questionText})`;
+    const textQuery = sql`websearch_to_tsquery('english', ${search.q ?? ''})`;
+
+    if (search.topicId) {
+      const topic = await this.getTopic(search.topicId);
+      if (!topic) return { questions: [], nextCursor: null };
+
+      const topicIds = [topic.id, ...subtopicsOf(topic, await this.getTopicsBySubject(topic.subject)).map(subtopic => subtopic.id)];
+      const tagged = db.select({ questionId: questionTopics.questionId })
+        .from(questionTopics)
+        .where(inArray(questionTopics.topicId, topicIds));
+      conditions.push(or(inArray(questions.topicId, topicIds), inArray(questions.id, tagged))!);
+    }
+    if (search.subject) conditions.push(eq(documents.subject, search.subject));
+    if (search.yearFrom !== undefined) conditions.push(sql`${year} >= ${search.yearFrom}`);
+    if (search.yearTo !== undefined) conditions.push(sql`${year} <= ${search.yearTo}`);
+    if (search.session) conditions.push(eq(questions.paperSession, search.session));
+    if (search.component !== undefined) conditions.push(eq(documents.component, search.component));
+    if (search.difficulty) conditions.push(eq(questions.difficulty, search.difficulty));
+    if (search.marksMin !== undefined) conditions.push(gte(questions.marks, search.marksMin));
+    if (search.marksMax !== undefined) conditions.push(lte(questions.marks, search.marksMax));
+    if (search.hasDiagram !== undefined) {
+      conditions.push(search.hasDiagram
+        ? eq(questions.hasVectorDiagram, true)
+        : or(eq(questions.hasVectorDiagram, false), isNull(questions.hasVectorDiagram))!);
+    }
+    if (search.q) conditions.push(sql`${textVector} @@ ${textQuery}`);
+
+    // Sort values are float8 so cursor values survive the trip through JSON unchanged
+    const sort = resolveSort(search);
+    const sortValue = sort === 'relevance' ? sql<number>`ts_rank(${textVector}, ${textQuery})::float8`
+      : sort === 'year' ? sql<number>`coalesce(${year}, 0)::float8`
+      : sort === 'marks' ? sql<number>`coalesce(${questions.marks}, 0)::float8`
+      : sql<number>`(extract(epoch from date_trunc('milliseconds', ${questions.createdAt})) * 1000)::float8`;
+
+    const cursor = search.cursor ? decodeSearchCursor(search.cursor) : null;
+    if (cursor) {
+      conditions.push(search.order === 'asc'
+        ? sql`(${sortValue}, ${questions.id}) > (${cursor.value}::float8, ${cursor.id}::varchar)`
+        : sql`(${sortValue}, ${questions.id}) < (${cursor.value}::float8, ${cursor.id}::varchar)`);
+    }
+
+    const direction = search.order === 'asc' ? asc : desc;
+    const rows = await db.select({ question: questions, value: sortValue })
+      .from(questions)
+      .leftJoin(documents, eq(questions.documentId, documents.id))
+      .where(and(...conditions))
+      .orderBy(direction(sortValue), direction(questions.id))
+      .limit(search.limit + 1);
+
+    const page = rows.slice(0, search.limit);
+    const last = page[page.length - 1];
+    return {
+      questions: page.map(row => row.question),
+      nextCursor: rows.length > search.limit ? encodeSearchCursor({ value: last.value, id: last.question.id }) : null
+    };
+  }
+
+  async updateQuestion(id: string, updates: Partial<InsertQuestion>): Promise<Question | undefined> {
+    const [question] = await db.update(questions).set(updates).where(eq(questions.id, id)).returning();
+    return question || undefined;
+  }
+
+  async deleteQuestion(id: string): Promise<Question | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(questionTopics).where(eq(questionTopics.questionId, id));
+      const [question] = await tx.delete(questions).where(eq(questions.id, id)).returning();
+      return question || undefined;
+    });
+  }
+
+  // Question topic tags
+  async setQuestionTopics(questionId: string, tags: Omit<InsertQuestionTopic, 'questionId'>[]): Promise<QuestionTopic[]> {
+    await db.delete(questionTopics).where(eq(questionTopics.questionId, questionId));
+    if (tags.length === 0) return [];
+    return await db.insert(questionTopics).values(tags.map(tag => ({ ...tag, questionId }))).returning();
+  }
+
+  async getQuestionTopics(questionId: string): Promise<QuestionTopic[]> {
+    return await db.select().from(questionTopics)
+      .where(eq(questionTopics.questionId, questionId))
+      .orderBy(desc(questionTopics.confidence));
+  }
+
+  // Marking scheme entries
+  async createMarkSchemeEntry(insertEntry: InsertMarkSchemeEntry): Promise<MarkSchemeEntry> {
+    const [entry] = await db.insert(markSchemeEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  async getMarkSchemeEntriesByPaperCode(paperCode: string): Promise<MarkSchemeEntry[]> {
+    return await db.select().from(markSchemeEntries).where(eq(markSchemeEntries.paperCode, paperCode));
+  }
+
+  async deleteMarkSchemeEntriesByDocument(documentId: string): Promise<void> {
+    await db.delete(markSchemeEntries).where(eq(markSchemeEntries.documentId, documentId));
+  }
+
   // Generated PDFs
   async createGeneratedPdf(insertPdf: InsertGeneratedPdf): Promise<GeneratedPdf> {
     const [pdf] = await db.insert(generatedPdfs).values(insertPdf).returning();
@@ -304,15 +1123,96 @@ export class DatabaseStorage implements IStorage {
     return pdf || undefined;
   }
 
-  async getRecentGeneratedPdfs(limit: number = 10): Promise<GeneratedPdf[]> {
-    return await db.select().from(generatedPdfs)
-      .orderBy(generatedPdfs.createdAt)
-      .limit(limit);
+  async listGeneratedPdfs(list: GeneratedPdfList): Promise<GeneratedPdfPage> {
+    const conditions: SQL[] = [];
+    const createdAt = sql<number>`(extract(epoch from date_trunc('milliseconds', ${generatedPdfs.createdAt})) * 1000)::float8`;
+
+    if (list.pinned !== undefined) conditions.push(eq(generatedPdfs.pinned, list.pinned));
+    const cursor = list.cursor ? decodeSearchCursor(list.cursor) : null;
+    if (cursor) {
+      conditions.push(sql`(${createdAt}, ${generatedPdfs.id}) < (${cursor.value}::float8, ${cursor.id}::varchar)`);
+    }
+
+    const rows = await db.select({ pdf: generatedPdfs, value: createdAt })
+      .from(generatedPdfs)
+      .where(and(...conditions))
+      .orderBy(desc(createdAt), desc(generatedPdfs.id))
+      .limit(list.limit + 1);
+
+    const page = rows.slice(0, list.limit);
+    const last = page[page.length - 1];
+    return {
+      pdfs: page.map(row => row.pdf),
+      nextCursor: rows.length > list.limit ? encodeSearchCursor({ value: last.value, id: last.pdf.id }) : null
+    };
+  }
+
+  async getGeneratedPdfFiles(): Promise<GeneratedPdfFile[]> {
+    return await db.select({ id: generatedPdfs.id, filePath: generatedPdfs.filePath, fileSize: generatedPdfs.fileSize })
+      .from(generatedPdfs);
+  }
+
+  async getExpiredGeneratedPdfs(createdBefore: Date | null, keepNewest: number | null): Promise<GeneratedPdf[]> {
+    const expired = new Map<string, GeneratedPdf>();
+
+    if (createdBefore !== null) {
+      const old = await db.select().from(generatedPdfs)
+        .where(and(eq(generatedPdfs.pinned, false), lt(generatedPdfs.createdAt, createdBefore)));
+      old.forEach(pdf => expired.set(pdf.id, pdf));
+    }
+    if (keepNewest !== null) {
+      const surplus = await db.select().from(generatedPdfs)
+        .where(eq(generatedPdfs.pinned, false))
+        .orderBy(desc(generatedPdfs.createdAt), desc(generatedPdfs.id))
+        .offset(keepNewest);
+      surplus.forEach(pdf => expired.set(pdf.id, pdf));
+    }
+
+    return Array.from(expired.values());
+  }
+
+  async updateGeneratedPdf(id: string, updates: Partial<InsertGeneratedPdf>): Promise<GeneratedPdf | undefined> {
+    const [pdf] = await db.update(generatedPdfs).set(updates).where(eq(generatedPdfs.id, id)).returning();
+    return pdf || undefined;
+  }
+
+  async deleteGeneratedPdf(id: string): Promise<GeneratedPdf | undefined> {
+    const [pdf] = await db.delete(generatedPdfs).where(eq(generatedPdfs.id, id)).returning();
+    return pdf || undefined;
+  }
+
+  // Worksheet drafts
+  async createWorksheetDraft(insertDraft: InsertWorksheetDraft): Promise<WorksheetDraft> {
+    const [draft] = await db.insert(worksheetDrafts).values(insertDraft).returning();
+    return draft;
+  }
+
+  async getWorksheetDraft(id: string): Promise<WorksheetDraft | undefined> {
+    const [draft] = await db.select().from(worksheetDrafts).where(eq(worksheetDrafts.id, id));
+    return draft || undefined;
+  }
+
+  async getWorksheetDrafts(): Promise<WorksheetDraft[]> {
+    return await db.select().from(worksheetDrafts).orderBy(desc(worksheetDrafts.updatedAt));
+  }
+
+  async updateWorksheetDraft(id: string, updates: Partial<InsertWorksheetDraft>): Promise<WorksheetDraft | undefined> {
+    const [draft] = await db.update(worksheetDrafts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(worksheetDrafts.id, id))
+      .returning();
+    return draft || undefined;
+  }
+
+  async deleteWorksheetDraft(id: string): Promise<boolean> {
+    const deleted = await db.delete(worksheetDrafts).where(eq(worksheetDrafts.id, id)).returning();
+    return deleted.length > 0;
   }
 
   // Processing Jobs
   async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
     const [job] = await db.insert(processingJobs).values(insertJob).returning();
+    appEvents.publish({ type: 'job', job });
     return job;
   }
 
@@ -322,14 +1222,79 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateProcessingJob(id: string, updates: Partial<ProcessingJob>): Promise<void> {
-    await db.update(processingJobs)
+    const [job] = await db.update(processingJobs)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(processingJobs.id, id));
+      .where(eq(processingJobs.id, id))
+      .returning();
+    if (job) appEvents.publish({ type: 'job', job });
   }
 
   async getActiveProcessingJobs(): Promise<ProcessingJob[]> {
     return await db.select().from(processingJobs)
-      .where(eq(processingJobs.status, 'processing'));
+      .where(inArray(processingJobs.status, ['pending', 'processing']));
+  }
+
+  async getRecentProcessingJobs(limit: number = 20, filters: { type?: string; status?: string } = {}): Promise<ProcessingJob[]> {
+    return await db.select().from(processingJobs)
+      .where(and(
+        filters.type ? eq(processingJobs.type, filters.type) : undefined,
+        filters.status ? eq(processingJobs.status, filters.status) : undefined
+      ))
+      .orderBy(desc(processingJobs.createdAt))
+      .limit(limit);
+  }
+
+  async claimProcessingJob(workerId: string, leaseMs: number, excludeIds: string[] = []): Promise<ProcessingJob | undefined> {
+    // SKIP LOCKED lets several workers claim at once without taking the same job
+    const due = db.select({ id: processingJobs.id })
+      .from(processingJobs)
+      .where(and(
+        excludeIds.length > 0 ? notInArray(processingJobs.id, excludeIds) : undefined,
+        or(
+          and(eq(processingJobs.status, 'pending'), or(isNull(processingJobs.runAfter), lte(processingJobs.runAfter, sql`now()`))),
+          and(eq(processingJobs.status, 'processing'), lt(processingJobs.leaseExpiresAt, sql`now()`))
+        )
+      ))
+      .orderBy(asc(processingJobs.createdAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+
+    const [job] = await db.update(processingJobs)
+      .set({
+        status: 'processing',
+        leaseOwner: workerId,
+        leaseExpiresAt: sql`now() + ${leaseMs} * interval '1 millisecond'`,
+        attempts: sql`${processingJobs.attempts} + 1`,
+        updatedAt: new Date()
+      })
+      .where(inArray(processingJobs.id, due))
+      .returning();
+    if (job) appEvents.publish({ type: 'job', job });
+    return job || undefined;
+  }
+
+  async renewProcessingJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const renewed = await db.update(processingJobs)
+      .set({ leaseExpiresAt: sql`now() + ${leaseMs} * interval '1 millisecond'` })
+      .where(and(
+        eq(processingJobs.id, id),
+        eq(processingJobs.status, 'processing'),
+        eq(processingJobs.leaseOwner, workerId)
+      ))
+      .returning({ id: processingJobs.id });
+    return renewed.length > 0;
+  }
+
+  async addProcessingJobEvent(insertEvent: InsertProcessingJobEvent): Promise<ProcessingJobEvent> {
+    const [event] = await db.insert(processingJobEvents).values(insertEvent).returning();
+    appEvents.publish({ type: 'job_event', event });
+    return event;
+  }
+
+  async getProcessingJobEvents(jobId: string): Promise<ProcessingJobEvent[]> {
+    return await db.select().from(processingJobEvents)
+      .where(eq(processingJobEvents.jobId, jobId))
+      .orderBy(asc(processingJobEvents.createdAt));
   }
 }
 
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, timestamp, integer, boolean, real, unique, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,10 +9,19 @@ export const documents = pgTable("documents", {
   type: text("type").notNull(), // 'syllabus' | 'pastpaper' | 'markingscheme'
   subject: text("subject"), // 'physics' | 'chemistry' | 'biology'
   content: text("content"), // extracted text content
-  metadata: json("metadata"), // file size, upload date, etc.
+  metadata: json("metadata"), // file size, upload date, sha256 of the file, etc.
+  syllabusCode: text("syllabus_code"), // e.g. '5054', read from Cambridge file names
+  paperYear: integer("paper_year"),
+  paperSeries: text("paper_series"), // 'march' | 'summer' | 'winter'
+  component: integer("component"), // paper number, e.g. 2
+  variant: integer("variant"), // e.g. 1 for 5054_s19_qp_21
+  paperKind: text("paper_kind"), // 'qp' | 'ms' | 'in' | 'er' | 'gt'
   processingStatus: text("processing_status").default("pending"), // 'pending' | 'processing' | 'completed' | 'error'
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Finds an earlier upload of the same file
+  index("documents_sha256_idx").on(sql`(${table.metadata}->>'sha256')`),
+]);
 
 export const topics = pgTable("topics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -20,23 +29,56 @@ export const topics = pgTable("topics", {
   subject: text("subject").notNull(),
   mainTopic: text("main_topic").notNull(),
   subtopic: text("subtopic"),
+  parentId: varchar("parent_id").references((): AnyPgColumn => topics.id), // null for main topics
+  code: text("code"), // the syllabus's own numbering, e.g. '4.2' or '4.2.3'
+  sortOrder: integer("sort_order").default(0), // position among siblings, in syllabus order
+  learningObjectives: json("learning_objectives"), // string[] of what candidates should be able to do
   description: text("description"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Natural key, so re-processing a syllabus updates its topics instead of copying them
+  unique("topics_subject_main_topic_subtopic_unique").on(table.subject, table.mainTopic, table.subtopic).nullsNotDistinct(),
+]);
 
 export const questions = pgTable("questions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   documentId: varchar("document_id").references(() => documents.id),
-  topicId: varchar("topic_id").references(() => topics.id),
+  topicId: varchar("topic_id").references(() => topics.id), // primary topic; every topic is listed in question_topics
   questionText: text("question_text").notNull(),
   questionNumber: text("question_number"),
   paperYear: text("paper_year"),
-  paperSession: text("paper_session"), // 'june' | 'november'
+  paperSession: text("paper_session"), // 'march' | 'summer' | 'winter'
   hasVectorDiagram: boolean("has_vector_diagram").default(false),
-  diagramData: json("diagram_data"), // base64 image data and metadata
+  diagramData: json("diagram_data"), // source paper path and page regions of the original question
   difficulty: text("difficulty"), // 'easy' | 'medium' | 'hard'
   marks: integer("marks"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // Natural key, so re-processing a paper updates its questions instead of copying them
+  unique("questions_document_id_question_number_unique").on(table.documentId, table.questionNumber),
+  // Backs the question bank's full-text search
+  index("questions_question_text_search_idx").using("gin", sql`to_tsvector('english', ${table.questionText})`),
+]);
+
+// Questions often span several topics; each tag records how sure the categorizer was
+export const questionTopics = pgTable("question_topics", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").notNull().references(() => questions.id),
+  topicId: varchar("topic_id").notNull().references(() => topics.id),
+  confidence: real("confidence").notNull().default(1), // 0-1
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("question_topics_question_id_topic_id_unique").on(table.questionId, table.topicId),
+]);
+
+export const markSchemeEntries = pgTable("mark_scheme_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").references(() => documents.id),
+  paperCode: text("paper_code"), // e.g. '5054_s19_21', shared by the question paper and its marking scheme
+  questionNumber: text("question_number").notNull(), // e.g. '3(b)(ii)'
+  answerText: text("answer_text").notNull(),
+  marks: integer("marks"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const generatedPdfs = pgTable("generated_pdfs", {
@@ -48,25 +90,59 @@ export const generatedPdfs = pgTable("generated_pdfs", {
   subtopic: text("subtopic"),
   questionCount: integer("question_count").notNull(),
   diagramCount: integer("diagram_count").notNull(),
-  fileSize: text("file_size").notNull(),
+  fileSize: integer("file_size_bytes"), // bytes; null for PDFs generated before sizes were recorded
   filePath: text("file_path").notNull(),
   configuration: json("configuration"), // output settings
+  snapshot: json("snapshot"), // GeneratedPdfSnapshot: what went into the PDF, so it can be rebuilt later
+  pinned: boolean("pinned").notNull().default(false), // pinned PDFs are never removed by the retention sweep
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("generated_pdfs_created_at_idx").on(table.createdAt, table.id),
+]);
+
+// A worksheet being put together in the PDF builder, saved as it changes so it survives
+// topic switches and reloads
+export const worksheetDrafts = pgTable("worksheet_drafts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  questionIds: json("question_ids").notNull(), // string[] in worksheet order
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const processingJobs = pgTable("processing_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  type: text("type").notNull(), // 'syllabus_analysis' | 'question_extraction' | 'pdf_generation'
-  status: text("status").default("pending"), // 'pending' | 'processing' | 'completed' | 'error'
+  type: text("type").notNull(), // 'document_processing' | 'syllabus_analysis' | 'question_extraction' | 'pdf_generation' | 'archive_import'
+  status: text("status").default("pending"), // 'pending' | 'processing' | 'completed' | 'error' | 'cancelled'
   progress: integer("progress").default(0), // 0-100
   statusMessage: text("status_message"),
   documentIds: json("document_ids"), // array of document IDs being processed
-  result: json("result"), // processing result data
+  payload: json("payload"), // the job's input, so it can be run again after a restart
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").defaultNow(), // not picked up before this time; pushed back between retries
+  leaseOwner: text("lease_owner"), // worker running the job
+  leaseExpiresAt: timestamp("lease_expires_at"), // renewed by the worker's heartbeat; once past, the job is picked up again
+  result: json("result"), // processing result data; question extraction breaks each document down under `documents`
+  rejects: json("rejects"), // AI responses that still failed validation after repair attempts
   error: text("error"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Append-only log of what a job did, kept after its status message moves on
+export const processingJobEvents = pgTable("processing_job_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => processingJobs.id),
+  documentId: varchar("document_id"), // the document the entry is about, if any; kept after the document is deleted
+  level: text("level").notNull().default("info"), // 'info' | 'warning' | 'error'
+  message: text("message").notNull(),
+  data: json("data"), // structured details, e.g. a document's question count and duration
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("processing_job_events_job_id_idx").on(table.jobId, table.createdAt),
+]);
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   createdAt: true,
@@ -82,28 +158,174 @@ export const insertQuestionSchema = createInsertSchema(questions).omit({
   createdAt: true,
 });
 
+export const insertQuestionTopicSchema = createInsertSchema(questionTopics).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMarkSchemeEntrySchema = createInsertSchema(markSchemeEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertGeneratedPdfSchema = createInsertSchema(generatedPdfs).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertWorksheetDraftSchema = createInsertSchema(worksheetDrafts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(200),
+  questionIds: z.array(z.string()).max(500),
+});
+
 export const insertProcessingJobSchema = createInsertSchema(processingJobs).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertProcessingJobEventSchema = createInsertSchema(processingJobEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Fields users may correct by hand; the rest is owned by processing
+export const updateDocumentSchema = insertDocumentSchema.pick({
+  filename: true,
+  subject: true,
+  syllabusCode: true,
+  paperYear: true,
+  paperSeries: true,
+  component: true,
+  variant: true,
+  paperKind: true,
+}).partial();
+
+export const updateTopicSchema = insertTopicSchema.pick({
+  mainTopic: true,
+  subtopic: true,
+  code: true,
+  sortOrder: true,
+  learningObjectives: true,
+  description: true,
+}).partial();
+
+export const updateQuestionSchema = insertQuestionSchema.pick({
+  topicId: true,
+  questionText: true,
+  questionNumber: true,
+  paperYear: true,
+  paperSession: true,
+  hasVectorDiagram: true,
+  difficulty: true,
+  marks: true,
+}).partial();
+
+export const updateGeneratedPdfSchema = insertGeneratedPdfSchema.pick({
+  filename: true,
+  pinned: true,
+}).partial();
+
+export const updateWorksheetDraftSchema = insertWorksheetDraftSchema.partial();
+
+// Query string of GET /api/questions
+const booleanParam = z.enum(["true", "false"]).transform(value => value === "true");
+
+export const questionSearchSchema = z.object({
+  subject: z.string().optional(),
+  topicId: z.string().optional(), // the topic and its subtopics
+  yearFrom: z.coerce.number().int().optional(),
+  yearTo: z.coerce.number().int().optional(),
+  session: z.enum(["march", "summer", "winter"]).optional(),
+  component: z.coerce.number().int().optional(),
+  difficulty: z.enum(["easy", "medium", "hard"]).optional(),
+  marksMin: z.coerce.number().int().optional(),
+  marksMax: z.coerce.number().int().optional(),
+  hasDiagram: booleanParam.optional(),
+  q: z.string().trim().min(1).optional(), // free text, in web search syntax: "exact phrase", -excluded
+  sort: z.enum(["relevance", "created", "year", "marks"]).optional(), // relevance when searching, otherwise created
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(), // nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type QuestionSearch = z.infer<typeof questionSearchSchema>;
+export type QuestionSearchPage = { questions: Question[]; nextCursor: string | null };
+
+// Query string of GET /api/generated-pdfs; newest first
+export const generatedPdfListSchema = z.object({
+  pinned: booleanParam.optional(),
+  cursor: z.string().optional(), // nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type GeneratedPdfList = z.infer<typeof generatedPdfListSchema>;
+export type GeneratedPdfPage = { pdfs: GeneratedPdf[]; nextCursor: string | null };
+
+// The title and questions of a generated PDF in page order, each with the content it was
+// rendered from and a version hash of that content
+export type GeneratedPdfSnapshot = {
+  title: string;
+  subtitle: string;
+  questions: Array<{
+    id: string;
+    version: string;
+    question: Question;
+    answers?: MarkSchemeEntry[]; // when the PDF includes answer schemes
+  }>;
+};
+
+// Body of POST /api/generated-pdfs/:id/regenerate: 'exact' rebuilds from the snapshot,
+// 'refresh' uses the questions' current content and answers
+export const regeneratePdfSchema = z.object({
+  mode: z.enum(["exact", "refresh"]).default("exact"),
+});
+
+// Body of DELETE /api/generated-pdfs
+export const deleteGeneratedPdfsSchema = z.object({
+  ids: z.array(z.string()).min(1).max(100),
+});
+
+// Choices made in the archive import preview, matched to files by their path in the archive
+export const archiveImportSchema = z.object({
+  entries: z.array(z.object({
+    name: z.string(),
+    include: z.boolean(),
+    type: z.enum(["syllabus", "pastpaper", "markingscheme"]).optional(),
+    subject: z.string().trim().min(1).optional(),
+  })).default([]),
+});
+
+export type ArchiveImport = z.infer<typeof archiveImportSchema>;
+
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
 
 export type InsertTopic = z.infer<typeof insertTopicSchema>;
 export type Topic = typeof topics.$inferSelect;
+export type TopicNode = Topic & { children: TopicNode[] };
 
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
 export type Question = typeof questions.$inferSelect;
 
+export type InsertQuestionTopic = z.infer<typeof insertQuestionTopicSchema>;
+export type QuestionTopic = typeof questionTopics.$inferSelect;
+
+export type InsertMarkSchemeEntry = z.infer<typeof insertMarkSchemeEntrySchema>;
+export type MarkSchemeEntry = typeof markSchemeEntries.$inferSelect;
+
 export type InsertGeneratedPdf = z.infer<typeof insertGeneratedPdfSchema>;
 export type GeneratedPdf = typeof generatedPdfs.$inferSelect;
 
+export type InsertWorksheetDraft = z.infer<typeof insertWorksheetDraftSchema>;
+export type WorksheetDraft = typeof worksheetDrafts.$inferSelect;
+
 export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
 export type ProcessingJob = typeof processingJobs.$inferSelect;
+
+export type InsertProcessingJobEvent = z.infer<typeof insertProcessingJobEventSchema>;
+export type ProcessingJobEvent = typeof processingJobEvents.$inferSelect;
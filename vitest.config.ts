@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    env: {
+      // server/db.ts refuses to load without one; tests swap in MemStorage and never connect
+      DATABASE_URL: "postgres://test@localhost/test",
+    },
+  },
+});